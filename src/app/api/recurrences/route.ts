@@ -0,0 +1,48 @@
+import { timingSafeEqual } from "node:crypto";
+import { createClient } from "@supabase/supabase-js";
+import { localDateString } from "@/lib/dueDates";
+import { generateRecurrences } from "@/lib/generateRecurrences";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Constant-time, so response timing doesn't give the secret away a character at a time
+function isCronSecret(token: string, secret: string | undefined) {
+  if (!secret) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Make the recurring cards that are due. Two callers:
+ * - a cron job, with `Authorization: Bearer $CRON_SECRET`: every board, as the service role;
+ * - the board right after a card is moved to Done, with the user's access token and
+ *   `{ "boardId": ... }`: that board only, under the user's row-level security.
+ * "Today" is the server's local date, so run the app in the time zone its boards live in.
+ */
+export async function POST(request: Request) {
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return Response.json({ error: "Missing bearer token" }, { status: 401 });
+
+  const today = localDateString(new Date());
+
+  if (isCronSecret(token, process.env.CRON_SECRET)) {
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceKey) return Response.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not set" }, { status: 500 });
+    const client = createClient(SUPABASE_URL, serviceKey, { auth: { persistSession: false } });
+    return Response.json(await generateRecurrences(client, { today }));
+  }
+
+  const body = await request.json().catch(() => null);
+  const boardId = typeof body?.boardId === "string" ? body.boardId : null;
+  if (!boardId) return Response.json({ error: "boardId is required" }, { status: 400 });
+
+  const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const { error } = await client.auth.getUser(token);
+  if (error) return Response.json({ error: "Invalid session" }, { status: 401 });
+  return Response.json(await generateRecurrences(client, { boardId, today }));
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import React from 'react';
+import BoardPage from "@/components/BoardPage";
+
+const Page = ({ params }: { params: Promise<{ boardId: string }> }) => {
+  const { boardId } = React.use(params);
+  return <BoardPage boardId={boardId} />;
+};
+
+export default Page;
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { Suspense } from 'react';
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/lib/supabaseClient";
+import { useSession } from "@/hooks/useSession";
+
+// Only paths on this site: "//host" and "/\host" are read by browsers as other sites
+function safeNext(next: string | null) {
+  return next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\") ? next : "/";
+}
+
+const LoginForm = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const next = safeNext(searchParams.get("next"));
+  const { session } = useSession();
+  const [email, setEmail] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  // Already signed in (or just came back from a magic link)
+  React.useEffect(() => {
+    if (session) router.replace(next);
+  }, [session, next, router]);
+
+  async function run(action: () => Promise<{ error: { message: string } | null }>, success?: string) {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { error } = await action();
+      if (error) {
+        setError(error.message);
+      } else if (success) {
+        setMessage(success);
+      }
+    } catch (error) {
+      console.error("Error signing in:", error);
+      setError("Failed to reach the server. Please check your connection.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handlePasswordSignIn(e: React.FormEvent) {
+    e.preventDefault();
+    void run(() => supabase.auth.signInWithPassword({ email, password }));
+  }
+
+  function handleSignUp() {
+    void run(
+      () => supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: `${window.location.origin}/login?next=${encodeURIComponent(next)}` },
+      }),
+      "Account created. If email confirmation is on, check your inbox."
+    );
+  }
+
+  function handleMagicLink() {
+    void run(
+      () => supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: `${window.location.origin}/login?next=${encodeURIComponent(next)}` },
+      }),
+      "Check your email for a sign-in link."
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle className="text-2xl">Sign in</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handlePasswordSignIn} className="space-y-3">
+          <div>
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input id="password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+          {error && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-red-600 text-xs">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="p-2 bg-green-50 border border-green-200 rounded-md">
+              <p className="text-green-700 text-xs">{message}</p>
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={busy || !email || !password}>
+            Sign in
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" disabled={busy || !email || !password} onClick={handleSignUp}>
+              Create account
+            </Button>
+            <Button type="button" variant="outline" className="flex-1" disabled={busy || !email} onClick={handleMagicLink}>
+              Email me a link
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Page = () => {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+};
+
+export default Page;
@@ -1,97 +1,73 @@
 "use client";
 
 import React from 'react';
-import Prism from '../components/Prism/Prism';
-import { SpinningText } from "@/components/magicui/spinning-text";
-import { AuroraText } from "@/components/magicui/aurora-text";
-import KanbanBoard from "@/components/KanbanBoard";
-import MobileTodoList from "@/components/MobileTodoList";
-import { useMobile } from "@/hooks/useMobile";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { defaultColumnsFor } from "@/lib/columns";
+import { useRequireSession } from "@/hooks/useSession";
 
+// The board list lives at /b/[boardId]; / just forwards to the first board
 const Page = () => {
-  const isMobile = useMobile();
+  const router = useRouter();
+  const { session } = useRequireSession();
+  const [error, setError] = React.useState<string | null>(null);
 
-  // Mobile view - simple white background with todo list
-  if (isMobile) {
-    return <MobileTodoList />;
-  }
+  React.useEffect(() => {
+    if (!session) return;
 
-  // Desktop view - original design
-  return (
-    <div style={{ position: 'relative', width: '100vw', minHeight: '100vh', overflow: 'hidden' }}>
-      {/* Background Prism Animation */}
-      <div style={{ position: 'fixed', inset: 0, zIndex: 0, backgroundColor: '#000' }}>
-        <Prism
-          animationType="rotate"
-          timeScale={0.5}
-          height={2.5}
-          baseWidth={5.5}
-          scale={3.6}
-          hueShift={0}
-          colorFrequency={1}
-          noise={0}
-          glow={1}
-        />
-      </div>
+    const openFirstBoard = async () => {
+      // Boards shared with this email before the account existed
+      const { error: inviteError } = await supabase.rpc("claim_board_invites");
+      if (inviteError) {
+        console.error("Error claiming board invites:", inviteError);
+      }
 
-      {/* Header - Center Top */}
-      <div
-        className="flex items-center justify-center"
-        style={{
-          position: "fixed",
-          top: "2px",
-          left: "50%",
-          transform: "translateX(-50%)",
-          height: "70px",
-          width: "450px",
-          maxWidth: "60vw",
-          overflow: "visible",
-          background: "#ffffff",
-          boxShadow: "0 10px 24px rgba(0,0,0,0.06)",
-          padding: "0rem 0em",
-          border: "1px solid rgba(0,0,0,0.06)",
-          zIndex: 2,
-        }}
-      >
-        {/* Hairline deep ocean blue border (inner) */}
-        <div
-          style={{
-            position: "absolute",
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            pointerEvents: "none",
-            border: "1px solid #003366", // deep ocean blue
-            borderRadius: "inherit",
-            zIndex: 2,
-            boxSizing: "border-box",
-          }}
-        />
-        <span className="text-[40px] font-bold tracking-[0.6px] text-black whitespace-nowrap overflow-hidden text-ellipsis max-w-full">
-          Onward
-        </span>
-        <span className="text-[40px] font-bold tracking-[0.6px] whitespace-nowrap overflow-hidden text-ellipsis max-w-full ml-2">
-          <AuroraText>and upward</AuroraText>
-        </span>
-      </div>
+      const { data, error } = await supabase
+        .from("boards")
+        .select("id")
+        .order("position", { ascending: true })
+        .limit(1)
+        .maybeSingle();
 
-      {/* Page Content - Centered */}
-      <div style={{ position: 'relative', zIndex: 1, paddingTop: '90px', paddingBottom: '120px' }}>
-        <KanbanBoard />
-      </div>
-      {/* Bottom Center Spinning Text */}
-      <div
-        style={{
-          position: 'fixed',
-          bottom: '50px',
-          right: '55px',
-          zIndex: 1,
-          color: '#fff',
-          paddingBottom: '5px',
-        }}
-      >
-        <SpinningText>made by meet • made for meet •</SpinningText>
+      if (error) {
+        console.error("Error loading boards:", error);
+        setError("Failed to load boards. Please refresh the page.");
+        return;
+      }
+      if (data) {
+        router.replace(`/b/${data.id}`);
+        return;
+      }
+
+      // First visit: start the account off with a board of its own
+      const { data: board, error: createError } = await supabase
+        .from("boards")
+        .insert({ title: "Personal", position: 0 })
+        .select("id")
+        .single();
+      if (createError || !board) {
+        console.error("Error creating board:", createError);
+        setError("Failed to create your first board. Please refresh the page.");
+        return;
+      }
+      await supabase.from("kanban_columns").insert(defaultColumnsFor(board.id));
+      router.replace(`/b/${board.id}`);
+    };
+
+    openFirstBoard();
+  }, [session, router]);
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center">
+      <div className="text-center">
+        {error ? (
+          <p className="text-red-300 text-sm">{error}</p>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+            <p className="text-white/80">Loading board...</p>
+          </>
+        )}
       </div>
     </div>
   );
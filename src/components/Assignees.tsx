@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import { Check } from "lucide-react";
+import { Avatar } from "@/components/PresenceAvatars";
+import type { BoardMember } from "@/hooks/useAssignees";
+
+// Same colors as the presence avatars for people who have signed up
+function toViewer(member: BoardMember) {
+  return { userId: member.user_id ?? member.id, email: member.email };
+}
+
+// A card's assignees as a small overlapping stack
+export function AssigneeAvatars({
+  members,
+  ids,
+  max = 3,
+  className,
+}: {
+  members: BoardMember[];
+  ids?: string[];
+  max?: number;
+  className?: string;
+}) {
+  const assigned = members.filter(m => ids?.includes(m.id));
+  if (assigned.length === 0) return null;
+  const shown = assigned.slice(0, max);
+  const hidden = assigned.length - shown.length;
+
+  return (
+    <div
+      className={`flex items-center -space-x-1.5 ${className ?? ""}`}
+      aria-label={`Assigned to ${assigned.map(m => m.email).join(", ")}`}
+    >
+      {shown.map(m => (
+        <Avatar key={m.id} viewer={toViewer(m)} size="sm" />
+      ))}
+      {hidden > 0 && (
+        <span
+          title={assigned.slice(max).map(m => m.email).join(", ")}
+          className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-neutral-700 text-[9px] font-semibold text-white ring-2 ring-white"
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Toggle list of board members for the add/edit forms
+export function AssigneePicker({
+  members,
+  selected,
+  onChange,
+}: {
+  members: BoardMember[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  if (members.length === 0) {
+    return <p className="text-xs text-neutral-500">Nobody to assign yet - invite people from the Members menu.</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1.5" role="group" aria-label="Assignees">
+      {members.map(member => {
+        const active = selected.includes(member.id);
+        return (
+          <button
+            key={member.id}
+            type="button"
+            aria-pressed={active}
+            onClick={() => onChange(active ? selected.filter(id => id !== member.id) : [...selected, member.id])}
+            className={`inline-flex items-center gap-1.5 rounded-full py-0.5 pl-0.5 pr-2 text-xs ring-1 transition-colors ${
+              active ? "bg-neutral-800 text-white ring-neutral-800" : "bg-white text-neutral-700 ring-neutral-200 hover:bg-neutral-50"
+            }`}
+          >
+            <Avatar viewer={toViewer(member)} size="sm" />
+            {member.email.split("@")[0]}
+            {active && <Check className="size-3" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { defaultColumnsFor } from "@/lib/columns";
+import { applyQueuedWrites, enqueueWrite } from "@/lib/writeQueue";
+
+type Board = { id: string; title: string; position: number };
+
+export default function BoardSwitcher({ boardId, className }: { boardId: string; className?: string }) {
+  const router = useRouter();
+  const [boards, setBoards] = React.useState<Board[]>([]);
+  const [createOpen, setCreateOpen] = React.useState(false);
+  const [newTitle, setNewTitle] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const fetchBoards = async () => {
+      const { data, error } = await supabase
+        .from("boards")
+        .select("id, title, position")
+        .order("position", { ascending: true });
+      if (error) {
+        console.error("Error fetching boards:", error);
+      }
+      const rows = await applyQueuedWrites("boards", (data || []) as Board[]);
+      setBoards([...rows].sort((a, b) => a.position - b.position));
+    };
+
+    fetchBoards();
+  }, []);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+    setError(null);
+
+    const board: Board = {
+      id: crypto.randomUUID(),
+      title: newTitle.trim(),
+      position: boards.reduce((max, b) => Math.max(max, b.position), -1) + 1,
+    };
+    const { error } = await enqueueWrite({ table: "boards", action: "insert", rowId: board.id, values: board });
+    if (error) {
+      console.error("Error creating board:", error);
+      setError(`Failed to create board: ${error.message}`);
+      return;
+    }
+    // Columns are written after the board so the foreign key is satisfied on replay
+    await Promise.all(
+      defaultColumnsFor(board.id).map(col =>
+        enqueueWrite({ table: "kanban_columns", action: "insert", rowId: col.key, idColumn: "key", values: col })
+      )
+    );
+
+    setBoards(prev => [...prev, board]);
+    setCreateOpen(false);
+    setNewTitle("");
+    router.push(`/b/${board.id}`);
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ""}`}>
+      <select
+        aria-label="Board"
+        className="h-8 rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-800 shadow-sm"
+        value={boardId}
+        onChange={(e) => router.push(`/b/${e.target.value}`)}
+      >
+        {!boards.some(b => b.id === boardId) && <option value={boardId}>Current board</option>}
+        {boards.map(b => (
+          <option key={b.id} value={b.id}>{b.title}</option>
+        ))}
+      </select>
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" className="h-8" aria-label="New board">
+            <Plus className="h-4 w-4" />
+            Board
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New board</DialogTitle>
+            <DialogDescription>Starts with To-do, In-progress, Done and Temp columns.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div>
+              <Label htmlFor="board-title">Title</Label>
+              <Input id="board-title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} placeholder="e.g. Project A" required />
+            </div>
+            {error && <p className="text-red-600 text-xs">{error}</p>}
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="ghost">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">Create</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
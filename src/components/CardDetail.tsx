@@ -0,0 +1,327 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { DialogClose, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ExternalLink, Trash2, X } from "lucide-react";
+import Markdown from "@/components/Markdown";
+import { parseLinks, safeHref } from "@/lib/markdown";
+import DueDateFields, { DueChip } from "@/components/DueDate";
+import { LabelChips, LabelPicker } from "@/components/Labels";
+import PrioritySelect, { PriorityIcon } from "@/components/Priority";
+import { AssigneeAvatars, AssigneePicker } from "@/components/Assignees";
+import type { BoardMember } from "@/hooks/useAssignees";
+import type { LabelDef } from "@/lib/labels";
+import { PRIORITY_LABELS, type Priority } from "@/lib/priority";
+
+type LinkItem = { label: string; href: string };
+
+export type CardDetailCard = {
+  id: string;
+  title: string;
+  description?: string;
+  links?: LinkItem[];
+  columnTitle?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  dueDate?: string;
+  dueTime?: string;
+  labelIds?: string[];
+  priority?: Priority;
+  // board_members ids
+  assigneeIds?: string[];
+};
+
+export type CardDetailPatch = Pick<CardDetailCard, "title" | "description" | "links" | "dueDate" | "dueTime" | "labelIds" | "priority" | "assigneeIds">;
+
+function formatTimestamp(value?: string) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+/**
+ * Everything about one card: title, Markdown description with a write/preview toggle,
+ * links and metadata. Rendered inside a DialogDrawer - a side drawer on the desktop board
+ * and a full-screen sheet on mobile. The form starts from `card` each time it is opened.
+ */
+export default function CardDetail({
+  card,
+  labels = [],
+  members = [],
+  readOnly = false,
+  onSave,
+  onDelete,
+  children,
+}: {
+  card: CardDetailCard;
+  // The board's labels to pick from
+  labels?: LabelDef[];
+  // The board's members to assign
+  members?: BoardMember[];
+  readOnly?: boolean;
+  onSave: (patch: CardDetailPatch) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  // Sections that save on their own (checklist, ...), shown below the description
+  children?: React.ReactNode;
+}) {
+  const [title, setTitle] = React.useState(card.title);
+  const [description, setDescription] = React.useState(card.description || "");
+  const [links, setLinks] = React.useState((card.links || []).map(l => l.href).join(", "));
+  const [dueDate, setDueDate] = React.useState(card.dueDate || "");
+  const [dueTime, setDueTime] = React.useState(card.dueTime || "");
+  const [labelIds, setLabelIds] = React.useState<string[]>(card.labelIds ?? []);
+  const [assigneeIds, setAssigneeIds] = React.useState<string[]>(card.assigneeIds ?? []);
+  const [priority, setPriority] = React.useState<Priority>(card.priority ?? "none");
+  const [mode, setMode] = React.useState<"write" | "preview">(readOnly || card.description ? "preview" : "write");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const dirty =
+    title !== card.title ||
+    description !== (card.description || "") ||
+    links !== (card.links || []).map(l => l.href).join(", ") ||
+    dueDate !== (card.dueDate || "") ||
+    dueTime !== (card.dueTime || "") ||
+    priority !== (card.priority ?? "none") ||
+    [...labelIds].sort().join() !== [...(card.labelIds ?? [])].sort().join() ||
+    [...assigneeIds].sort().join() !== [...(card.assigneeIds ?? [])].sort().join();
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    setIsSaving(true);
+    try {
+      const parsed = parseLinks(links);
+      await onSave({
+        title: title.trim(),
+        description: description || undefined,
+        links: parsed.length ? parsed : undefined,
+        dueDate: dueDate || undefined,
+        dueTime: dueDate && dueTime ? dueTime : undefined,
+        labelIds: labelIds.length ? labelIds : undefined,
+        priority,
+        assigneeIds,
+      });
+      setMode("preview");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!onDelete) return;
+    setIsDeleting(true);
+    try {
+      await onDelete();
+    } finally {
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="flex min-h-full flex-col gap-5">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          {card.columnTitle && (
+            <span className="mb-1 inline-block rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-600">
+              {card.columnTitle}
+            </span>
+          )}
+          {readOnly ? (
+            <DialogTitle className="text-xl">{card.title}</DialogTitle>
+          ) : (
+            <Input
+              aria-label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="h-auto border-transparent px-1 text-xl font-semibold shadow-none hover:border-neutral-200 focus-visible:border-neutral-300"
+              required
+            />
+          )}
+        </div>
+        <DialogClose asChild>
+          <Button type="button" size="icon" variant="ghost" aria-label="Close">
+            <X />
+          </Button>
+        </DialogClose>
+      </div>
+
+      <section>
+        <div className="mb-2 flex items-center justify-between">
+          <Label htmlFor={`detail-desc-${card.id}`}>Description</Label>
+          {!readOnly && (
+            <div className="flex rounded-md border border-neutral-200 p-0.5 text-xs" role="tablist">
+              {(["write", "preview"] as const).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  role="tab"
+                  aria-selected={mode === m}
+                  onClick={() => setMode(m)}
+                  className={`rounded px-2 py-0.5 capitalize ${mode === m ? "bg-neutral-800 text-white" : "text-neutral-600 hover:bg-neutral-100"}`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {mode === "write" && !readOnly ? (
+          <Textarea
+            id={`detail-desc-${card.id}`}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={12}
+            className="font-mono text-sm"
+            placeholder={"Markdown: # heading, **bold**, - list, - [ ] task, ```code```, [link](https://...)"}
+          />
+        ) : description.trim() ? (
+          <Markdown source={description} className="rounded-md border border-neutral-100 p-3 text-sm text-neutral-800" />
+        ) : (
+          <p className="text-sm text-neutral-400">No description</p>
+        )}
+      </section>
+
+      {readOnly ? (
+        card.assigneeIds && card.assigneeIds.length > 0 && (
+          <section>
+            <h4 className="mb-1 text-sm font-medium">Assignees</h4>
+            <ul className="space-y-1 text-sm">
+              {members.filter(m => card.assigneeIds?.includes(m.id)).map(m => (
+                <li key={m.id} className="flex items-center gap-2">
+                  <AssigneeAvatars members={[m]} ids={[m.id]} />
+                  {m.email}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )
+      ) : (
+        <section>
+          <h4 className="mb-1 text-sm font-medium">Assignees</h4>
+          <AssigneePicker members={members} selected={assigneeIds} onChange={setAssigneeIds} />
+        </section>
+      )}
+
+      {readOnly ? (
+        card.labelIds && card.labelIds.length > 0 && (
+          <section>
+            <h4 className="mb-1 text-sm font-medium">Labels</h4>
+            <LabelChips labels={labels} ids={card.labelIds} />
+          </section>
+        )
+      ) : (
+        <section>
+          <h4 className="mb-1 text-sm font-medium">Labels</h4>
+          <LabelPicker labels={labels} selected={labelIds} onChange={setLabelIds} />
+        </section>
+      )}
+
+      {readOnly ? (
+        card.priority && card.priority !== "none" && (
+          <section>
+            <h4 className="mb-1 text-sm font-medium">Priority</h4>
+            <span className="inline-flex items-center gap-1.5 text-sm">
+              <PriorityIcon priority={card.priority} />
+              {PRIORITY_LABELS[card.priority]}
+            </span>
+          </section>
+        )
+      ) : (
+        <PrioritySelect id={`detail-priority-${card.id}`} value={priority} onChange={setPriority} />
+      )}
+
+      {readOnly ? (
+        card.dueDate && (
+          <section>
+            <h4 className="mb-1 text-sm font-medium">Due</h4>
+            <DueChip date={card.dueDate} time={card.dueTime} />
+          </section>
+        )
+      ) : (
+        <DueDateFields
+          id={`detail-due-${card.id}`}
+          date={dueDate}
+          time={dueTime}
+          onChange={(date, time) => { setDueDate(date); setDueTime(time); }}
+        />
+      )}
+
+      {children}
+
+      <section>
+        <Label htmlFor={`detail-links-${card.id}`}>Links</Label>
+        {!readOnly && (
+          <Input
+            id={`detail-links-${card.id}`}
+            value={links}
+            onChange={(e) => setLinks(e.target.value)}
+            placeholder="https://... , https://... (comma separated)"
+            className="mt-1"
+          />
+        )}
+        {card.links && card.links.length > 0 ? (
+          <ul className="mt-2 space-y-1">
+            {card.links.map((l, i) => (
+              <li key={`${card.id}-detail-link-${i}`}>
+                {/* Links saved before they were checked may not pass; those stay plain text */}
+                {safeHref(l.href) ? (
+                  <a href={safeHref(l.href)!} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline break-all">
+                    <ExternalLink className="size-3 shrink-0" />
+                    {l.href}
+                  </a>
+                ) : (
+                  <span className="text-sm text-neutral-600 break-all">{l.href}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : readOnly && (
+          <p className="mt-1 text-sm text-neutral-400">No links</p>
+        )}
+      </section>
+
+      <section>
+        <h4 className="mb-2 text-sm font-medium">Details</h4>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-neutral-500">Column</dt>
+          <dd>{card.columnTitle ?? "—"}</dd>
+          <dt className="text-neutral-500">Created</dt>
+          <dd>{formatTimestamp(card.createdAt)}</dd>
+          <dt className="text-neutral-500">Updated</dt>
+          <dd>{formatTimestamp(card.updatedAt)}</dd>
+          <dt className="text-neutral-500">ID</dt>
+          <dd className="font-mono text-xs text-neutral-500 break-all">{card.id}</dd>
+        </dl>
+      </section>
+
+      {!readOnly && (
+        <div className="mt-auto flex items-center gap-2 border-t border-neutral-100 pt-4">
+          {onDelete && (
+            <Button type="button" variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              <Trash2 />
+              Delete
+            </Button>
+          )}
+          <div className="ml-auto flex gap-2">
+            <DialogClose asChild>
+              <Button type="button" variant="ghost">Close</Button>
+            </DialogClose>
+            <Button type="submit" disabled={isSaving || !dirty || !title.trim()}>
+              {isSaving ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Saving...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
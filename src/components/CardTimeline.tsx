@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { ArrowRight, ArrowUpDown, History, Pencil, Plus, RotateCcw, Trash2, type LucideIcon } from "lucide-react";
+import { useCardEvents } from "@/hooks/useCardEvents";
+import { useSession } from "@/hooks/useSession";
+import { TRACKED_FIELDS, type CardEvent, type CardEventKind, type FieldChange } from "@/lib/cardEvents";
+import type { LabelDef } from "@/lib/labels";
+import { PRIORITY_LABELS, toPriority } from "@/lib/priority";
+
+const KIND_ICONS: Record<CardEventKind, LucideIcon> = {
+  created: Plus,
+  edited: Pencil,
+  moved: ArrowRight,
+  reordered: ArrowUpDown,
+  deleted: Trash2,
+  restored: RotateCcw,
+};
+
+const truncate = (text: string, max = 60) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+function actorName(event: CardEvent, userId: string | null) {
+  // Events still in the offline queue have no author yet - they are ours
+  if (event.actor_id === undefined || (userId && event.actor_id === userId)) return "You";
+  if (event.actor_email) return event.actor_email.split("@")[0];
+  // Nobody signed in wrote it: the server made the card for a repeating series
+  return "Recurring schedule";
+}
+
+function formatValue(field: string, value: unknown, labels: LabelDef[]): string {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return "none";
+  switch (field) {
+    case "priority":
+      return PRIORITY_LABELS[toPriority(value)];
+    case "label_ids":
+      return (value as string[]).map(id => labels.find(l => l.id === id)?.name ?? "deleted label").join(", ");
+    case "links":
+      return (value as { href: string }[]).map(l => l.href).join(", ");
+    case "due_date":
+      return new Date(`${value}T00:00:00`).toLocaleDateString();
+    case "due_time":
+      return String(value).slice(0, 5);
+    default:
+      return truncate(String(value));
+  }
+}
+
+function ChangeLine({ change, labels }: { change: FieldChange; labels: LabelDef[] }) {
+  const name = TRACKED_FIELDS[change.field] ?? change.field;
+  // Long text reads better as "edited" than as a before/after pair
+  if (change.field === "description" && change.before && change.after) {
+    return (
+      <li>
+        edited the description
+        <span className="block text-neutral-500 line-through">{truncate(String(change.before))}</span>
+        <span className="block">{truncate(String(change.after))}</span>
+      </li>
+    );
+  }
+  return (
+    <li>
+      {change.before === null ? "set" : change.after === null ? "cleared" : "changed"} the {name}
+      {change.before !== null && (
+        <> from <span className="font-medium">{formatValue(change.field, change.before, labels)}</span></>
+      )}
+      {change.after !== null && (
+        <> to <span className="font-medium">{formatValue(change.field, change.after, labels)}</span></>
+      )}
+    </li>
+  );
+}
+
+function summary(event: CardEvent) {
+  switch (event.kind) {
+    case "created":
+      return "created this card";
+    case "edited":
+      return "edited this card";
+    case "moved": {
+      const column = event.changes?.find(c => c.field === "column");
+      return column ? `moved this card from ${column.before} to ${column.after}` : "moved this card";
+    }
+    case "reordered":
+      return "reordered this card";
+    case "deleted":
+      return "deleted this card";
+    case "restored":
+      return "restored this card";
+  }
+}
+
+/** The card's history, newest first, for the card detail view. */
+export default function CardTimeline({ cardId, labels = [] }: { cardId: string; labels?: LabelDef[] }) {
+  const { events, loading } = useCardEvents(cardId);
+  const { user } = useSession();
+
+  return (
+    <section>
+      <h4 className="mb-2 flex items-center gap-1.5 text-sm font-medium">
+        <History className="size-4" />
+        Activity
+      </h4>
+      {loading ? (
+        <p className="text-sm text-neutral-400">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-neutral-400">No recorded activity</p>
+      ) : (
+        <ol className="max-h-72 space-y-3 overflow-y-auto border-l border-neutral-200 pl-4">
+          {events.map(event => {
+            const Icon = KIND_ICONS[event.kind];
+            return (
+              <li key={event.id} className="relative text-sm text-neutral-700">
+                <span className="absolute -left-[25px] top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-white ring-1 ring-neutral-200">
+                  <Icon className="size-2.5 text-neutral-500" />
+                </span>
+                <p>
+                  <span className="font-medium text-neutral-900">{actorName(event, user?.id ?? null)}</span>{" "}
+                  {summary(event)}
+                  <time dateTime={event.created_at} className="ml-2 text-xs text-neutral-500">
+                    {new Date(event.created_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                  </time>
+                </p>
+                {event.kind === "edited" && event.changes && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-neutral-600">
+                    {event.changes.map(change => (
+                      <ChangeLine key={change.field} change={change} labels={labels} />
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import type { ChecklistActions, ChecklistItem } from "@/hooks/useChecklists";
+
+// "3/7" with a bar, for card faces
+export function ChecklistProgress({ items, className }: { items: ChecklistItem[]; className?: string }) {
+  if (items.length === 0) return null;
+  const done = items.filter(i => i.done).length;
+  const complete = done === items.length;
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ""}`} title={`${done} of ${items.length} checklist items done`}>
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-neutral-200">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${complete ? "bg-green-500" : "bg-blue-500"}`}
+          style={{ width: `${(done / items.length) * 100}%` }}
+        />
+      </div>
+      <span className={`text-[11px] font-medium tabular-nums ${complete ? "text-green-700" : "text-neutral-600"}`}>
+        {done}/{items.length}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Checklist section of the card detail view. Changes save immediately - it sits inside
+ * the card form, so Enter in its fields must not submit that form.
+ */
+export default function ChecklistEditor({
+  cardId,
+  items,
+  readOnly = false,
+  actions,
+}: {
+  cardId: string;
+  items: ChecklistItem[];
+  readOnly?: boolean;
+  actions: ChecklistActions;
+}) {
+  const [newText, setNewText] = React.useState("");
+
+  function handleAdd() {
+    const text = newText.trim();
+    if (!text) return;
+    setNewText("");
+    void actions.add(cardId, text);
+  }
+
+  return (
+    <section>
+      <div className="mb-2 flex items-center gap-3">
+        <h4 className="text-sm font-medium">Checklist</h4>
+        <ChecklistProgress items={items} className="flex-1" />
+      </div>
+      {items.length === 0 && readOnly && <p className="text-sm text-neutral-400">No checklist items</p>}
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <ChecklistRow
+            key={item.id}
+            item={item}
+            readOnly={readOnly}
+            isFirst={index === 0}
+            isLast={index === items.length - 1}
+            actions={actions}
+          />
+        ))}
+      </ul>
+      {!readOnly && (
+        <div className="mt-2 flex gap-2">
+          <Input
+            aria-label="New checklist item"
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); handleAdd(); } }}
+            placeholder="Add an item..."
+          />
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={!newText.trim()}>Add</Button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function ChecklistRow({
+  item,
+  readOnly,
+  isFirst,
+  isLast,
+  actions,
+}: {
+  item: ChecklistItem;
+  readOnly: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  actions: ChecklistActions;
+}) {
+  const [text, setText] = React.useState(item.text);
+
+  // Keep the field in sync when the item is renamed elsewhere
+  React.useEffect(() => {
+    setText(item.text);
+  }, [item.text]);
+
+  function commitText() {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setText(item.text);
+    } else if (trimmed !== item.text) {
+      void actions.rename(item, trimmed);
+    }
+  }
+
+  return (
+    <li className="group flex items-center gap-2">
+      <input
+        type="checkbox"
+        aria-label={item.done ? `Mark "${item.text}" as not done` : `Mark "${item.text}" as done`}
+        checked={item.done}
+        disabled={readOnly}
+        onChange={() => void actions.toggle(item)}
+        className="h-4 w-4 shrink-0 accent-green-600"
+      />
+      {readOnly ? (
+        <span className={`text-sm ${item.done ? "text-neutral-400 line-through" : "text-neutral-800"}`}>{item.text}</span>
+      ) : (
+        <>
+          <Input
+            aria-label="Checklist item"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commitText}
+            onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commitText(); } }}
+            className={`h-8 flex-1 border-transparent px-1 shadow-none hover:border-neutral-200 ${item.done ? "text-neutral-400 line-through" : ""}`}
+          />
+          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+            <Button type="button" size="iconXs" variant="outline" aria-label="Move up" disabled={isFirst} onClick={() => void actions.move(item, -1)}>
+              <ArrowUp className="size-3" />
+            </Button>
+            <Button type="button" size="iconXs" variant="outline" aria-label="Move down" disabled={isLast} onClick={() => void actions.move(item, 1)}>
+              <ArrowDown className="size-3" />
+            </Button>
+            <Button type="button" size="iconXs" variant="destructive" aria-label={`Delete "${item.text}"`} onClick={() => void actions.remove(item)}>
+              <Trash2 className="size-3" />
+            </Button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, Columns3, Trash2 } from "lucide-react";
+import { COLUMN_COLORS, WIP_MODES, type ColumnColor, type ColumnDef, type WipMode } from "@/lib/columns";
+
+type ColumnPatch = Partial<Pick<ColumnDef, "title" | "color" | "wip_limit" | "wip_mode">>;
+
+type ColumnsDialogProps = {
+  columns: ColumnDef[];
+  cardCounts: Record<string, number>;
+  onAdd: (title: string, color: ColumnColor) => void;
+  onUpdate: (key: string, patch: ColumnPatch) => void;
+  onMove: (key: string, direction: -1 | 1) => void;
+  // moveTo: column that receives the cards, or null to delete them with the column
+  onDelete: (key: string, moveTo: string | null) => void;
+};
+
+export default function ColumnsDialog({ columns, cardCounts, onAdd, onUpdate, onMove, onDelete }: ColumnsDialogProps) {
+  const [newTitle, setNewTitle] = React.useState("");
+  const [newColor, setNewColor] = React.useState<ColumnColor>("gray");
+  const [deleting, setDeleting] = React.useState<string | null>(null);
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+    onAdd(newTitle.trim(), newColor);
+    setNewTitle("");
+    setNewColor("gray");
+  }
+
+  return (
+    <Dialog onOpenChange={(open) => { if (!open) setDeleting(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-4">
+          <Columns3 />
+          Columns
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Columns</DialogTitle>
+          <DialogDescription>Rename, recolor, reorder or remove the board&apos;s columns, and cap how many cards each holds.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {columns.map((col, index) => (
+            <ColumnRow
+              key={col.key}
+              column={col}
+              others={columns.filter(c => c.key !== col.key)}
+              cardCount={cardCounts[col.key] ?? 0}
+              isFirst={index === 0}
+              isLast={index === columns.length - 1}
+              isDeleting={deleting === col.key}
+              onStartDelete={() => setDeleting(col.key)}
+              onCancelDelete={() => setDeleting(null)}
+              onUpdate={(patch) => onUpdate(col.key, patch)}
+              onMove={(direction) => onMove(col.key, direction)}
+              onDelete={(moveTo) => { setDeleting(null); onDelete(col.key, moveTo); }}
+            />
+          ))}
+        </div>
+        <form onSubmit={handleAdd} className="mt-4 flex items-end gap-2 border-t border-neutral-100 pt-4">
+          <div className="flex-1">
+            <Label htmlFor="new-column-title">New column</Label>
+            <Input id="new-column-title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} placeholder="e.g. Review" />
+          </div>
+          <ColorPicker value={newColor} onChange={setNewColor} />
+          <Button type="submit" disabled={!newTitle.trim()}>Add</Button>
+        </form>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="ghost">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ColumnRow({
+  column,
+  others,
+  cardCount,
+  isFirst,
+  isLast,
+  isDeleting,
+  onStartDelete,
+  onCancelDelete,
+  onUpdate,
+  onMove,
+  onDelete,
+}: {
+  column: ColumnDef;
+  others: ColumnDef[];
+  cardCount: number;
+  isFirst: boolean;
+  isLast: boolean;
+  isDeleting: boolean;
+  onStartDelete: () => void;
+  onCancelDelete: () => void;
+  onUpdate: (patch: ColumnPatch) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: (moveTo: string | null) => void;
+}) {
+  const [title, setTitle] = React.useState(column.title);
+  const [wipLimit, setWipLimit] = React.useState(column.wip_limit?.toString() ?? "");
+  const [moveTo, setMoveTo] = React.useState<string>(others[0]?.key ?? "");
+
+  // Keep the fields in sync when they change elsewhere
+  React.useEffect(() => {
+    setTitle(column.title);
+  }, [column.title]);
+
+  React.useEffect(() => {
+    setWipLimit(column.wip_limit?.toString() ?? "");
+  }, [column.wip_limit]);
+
+  // Empty (or anything that isn't a positive whole number) removes the limit
+  function commitWipLimit() {
+    const parsed = Number.parseInt(wipLimit, 10);
+    const limit = parsed > 0 ? parsed : null;
+    setWipLimit(limit?.toString() ?? "");
+    if (limit !== column.wip_limit) onUpdate({ wip_limit: limit });
+  }
+
+  function commitTitle() {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      setTitle(column.title);
+    } else if (trimmed !== column.title) {
+      onUpdate({ title: trimmed });
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label={`Title of ${column.title}`}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commitTitle(); } }}
+          className="flex-1"
+        />
+        <ColorPicker value={column.color} onChange={(color) => onUpdate({ color })} />
+        <Button size="iconXs" variant="outline" aria-label="Move up" disabled={isFirst} onClick={() => onMove(-1)}>
+          <ArrowUp className="size-3" />
+        </Button>
+        <Button size="iconXs" variant="outline" aria-label="Move down" disabled={isLast} onClick={() => onMove(1)}>
+          <ArrowDown className="size-3" />
+        </Button>
+        <Button
+          size="iconXs"
+          variant="destructive"
+          aria-label={`Delete ${column.title}`}
+          disabled={others.length === 0}
+          onClick={onStartDelete}
+        >
+          <Trash2 className="size-3" />
+        </Button>
+      </div>
+      <div className="mt-2 flex items-center gap-2 text-xs text-neutral-600">
+        <label htmlFor={`wip-${column.key}`}>WIP limit</label>
+        <Input
+          id={`wip-${column.key}`}
+          type="number"
+          min={1}
+          placeholder="None"
+          value={wipLimit}
+          onChange={(e) => setWipLimit(e.target.value)}
+          onBlur={commitWipLimit}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commitWipLimit(); } }}
+          className="h-7 w-20 text-xs"
+        />
+        <select
+          aria-label={`When ${column.title} is over its limit`}
+          className="h-7 rounded-md border border-neutral-200 bg-white px-2 text-xs disabled:opacity-50"
+          value={column.wip_mode}
+          disabled={!column.wip_limit}
+          onChange={(e) => onUpdate({ wip_mode: e.target.value as WipMode })}
+        >
+          {(Object.keys(WIP_MODES) as WipMode[]).map(mode => (
+            <option key={mode} value={mode}>{WIP_MODES[mode]}</option>
+          ))}
+        </select>
+        {column.wip_limit !== null && cardCount > column.wip_limit && (
+          <span className="text-red-600">{cardCount} cards - over the limit</span>
+        )}
+      </div>
+      {isDeleting && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+          {cardCount > 0 ? (
+            <>
+              <span>Move its {cardCount} {cardCount === 1 ? "card" : "cards"} to</span>
+              <select
+                aria-label="Move cards to"
+                className="h-7 rounded-md border border-neutral-200 bg-white px-2 text-xs"
+                value={moveTo}
+                onChange={(e) => setMoveTo(e.target.value)}
+              >
+                {others.map(c => (
+                  <option key={c.key} value={c.key}>{c.title}</option>
+                ))}
+                <option value="">Nowhere - delete the cards</option>
+              </select>
+            </>
+          ) : (
+            <span>Delete this empty column?</span>
+          )}
+          <div className="ml-auto flex gap-1">
+            <Button size="sm" variant="ghost" className="h-7" onClick={onCancelDelete}>Cancel</Button>
+            <Button size="sm" variant="destructive" className="h-7" onClick={() => onDelete(cardCount > 0 && moveTo ? moveTo : null)}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ColorPicker({ value, onChange }: { value: ColumnColor; onChange: (color: ColumnColor) => void }) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label="Column color">
+      {(Object.keys(COLUMN_COLORS) as ColumnColor[]).map(color => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={COLUMN_COLORS[color].label}
+          title={COLUMN_COLORS[color].label}
+          onClick={() => onChange(color)}
+          className={`h-5 w-5 rounded-full ${COLUMN_COLORS[color].swatch} ${value === color ? "ring-2 ring-offset-1 ring-neutral-700" : "ring-1 ring-black/10"}`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import React from "react";
+import { createPortal } from "react-dom";
+import { Search } from "lucide-react";
+import { CommandRegistryContext, type CommandRegistry } from "@/hooks/useCommands";
+import { filterCommands, type Command } from "@/lib/commands";
+
+/**
+ * Holds the commands registered below it and opens the palette on Ctrl+K (Cmd+K on macOS),
+ * from anywhere on the page - text fields included.
+ */
+export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
+  const sourcesRef = React.useRef(new Set<() => Command[]>());
+  const [open, setOpen] = React.useState(false);
+
+  const registry = React.useMemo<CommandRegistry>(() => ({
+    register: (getCommands) => {
+      sourcesRef.current.add(getCommands);
+      return () => { sourcesRef.current.delete(getCommands); };
+    },
+    open: () => setOpen(true),
+  }), []);
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(o => !o);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const collect = React.useCallback(() => {
+    // Later sources win a clash of ids, so the most specific command is the one kept
+    const byId = new Map<string, Command>();
+    for (const getCommands of sourcesRef.current) {
+      for (const command of getCommands()) byId.set(command.id, command);
+    }
+    return [...byId.values()];
+  }, []);
+
+  return (
+    <CommandRegistryContext.Provider value={registry}>
+      {children}
+      {open && <CommandPalette commands={collect()} onClose={() => setOpen(false)} />}
+    </CommandRegistryContext.Provider>
+  );
+}
+
+function CommandPalette({ commands, onClose }: { commands: Command[]; onClose: () => void }) {
+  const [query, setQuery] = React.useState("");
+  const [active, setActive] = React.useState(0);
+  const listRef = React.useRef<HTMLUListElement>(null);
+  // Where focus goes back to when the palette is dismissed
+  const [returnFocus] = React.useState(() => document.activeElement as HTMLElement | null);
+  const results = React.useMemo(() => filterCommands(commands, query), [commands, query]);
+
+  React.useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  function dismiss() {
+    onClose();
+    returnFocus?.focus();
+  }
+
+  function run(command: Command) {
+    // Focus goes back first: a dialog the command opens returns it there when it closes
+    dismiss();
+    // After the palette is gone, so commands that open a dialog or move focus aren't undone by it
+    setTimeout(() => void command.run(), 0);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive(i => (results.length ? (i + 1) % results.length : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive(i => (results.length ? (i - 1 + results.length) % results.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (results[active]) run(results[active]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      dismiss();
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh]">
+      <div className="absolute inset-0 bg-black/50" onClick={dismiss} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="relative z-10 w-full max-w-lg overflow-hidden rounded-xl border border-black/10 bg-white shadow-xl"
+      >
+        <div className="flex items-center gap-2 border-b border-neutral-200 px-4">
+          <Search className="size-4 text-neutral-400" />
+          <input
+            autoFocus
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={results[active] ? `command-${results[active].id}` : undefined}
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActive(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or a card title..."
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-neutral-400"
+          />
+        </div>
+        <ul id="command-palette-list" role="listbox" ref={listRef} className="max-h-80 overflow-y-auto p-2">
+          {results.length === 0 && <li className="px-3 py-6 text-center text-sm text-neutral-500">No matching commands</li>}
+          {results.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={i === active}
+              data-index={i}
+              onMouseMove={() => setActive(i)}
+              onClick={() => run(command)}
+              className={`flex cursor-pointer items-center gap-3 rounded-md px-3 py-2 text-sm ${
+                i === active ? "bg-neutral-100 text-neutral-900" : "text-neutral-700"
+              }`}
+            >
+              <span className="flex-1 truncate">{command.title}</span>
+              {command.group && <span className="text-xs text-neutral-400">{command.group}</span>}
+              {command.shortcut && (
+                <kbd className="rounded border border-neutral-200 bg-neutral-50 px-1.5 py-0.5 text-[10px] font-medium text-neutral-500">
+                  {command.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>,
+    document.body
+  );
+}
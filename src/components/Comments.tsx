@@ -0,0 +1,145 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Pencil, Trash2 } from "lucide-react";
+import Markdown from "@/components/Markdown";
+import { Avatar } from "@/components/PresenceAvatars";
+import type { CardComment, CommentActions } from "@/hooks/useComments";
+
+// Speech bubble with the number of comments, for card faces
+export function CommentCount({ count, className }: { count: number; className?: string }) {
+  if (count === 0) return null;
+  return (
+    <span
+      title={`${count} ${count === 1 ? "comment" : "comments"}`}
+      className={`inline-flex items-center gap-1 text-[11px] font-medium text-neutral-500 ${className ?? ""}`}
+    >
+      <MessageSquare className="size-3" />
+      {count}
+    </span>
+  );
+}
+
+/**
+ * Comment thread of the card detail view. Comments post immediately and, like the
+ * checklist, it sits inside the card form - so its buttons never submit that form.
+ * Ctrl/Cmd+Enter posts.
+ */
+export default function CommentThread({
+  cardId,
+  comments,
+  userId,
+  canComment,
+  actions,
+}: {
+  cardId: string;
+  comments: CardComment[];
+  userId: string | null;
+  canComment: boolean;
+  actions: CommentActions;
+}) {
+  const [body, setBody] = React.useState("");
+
+  function handlePost() {
+    const text = body.trim();
+    if (!text) return;
+    setBody("");
+    void actions.add(cardId, text);
+  }
+
+  return (
+    <section>
+      <h4 className="mb-2 text-sm font-medium">
+        Comments{comments.length > 0 && <span className="ml-1 text-neutral-500">({comments.length})</span>}
+      </h4>
+      {comments.length === 0 && <p className="text-sm text-neutral-400">No comments yet</p>}
+      <ul className="space-y-3">
+        {comments.map(comment => (
+          <CommentRow key={comment.id} comment={comment} isOwn={comment.author_id === userId} actions={actions} />
+        ))}
+      </ul>
+      {canComment && (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            aria-label="New comment"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); handlePost(); } }}
+            rows={3}
+            className="text-sm"
+            placeholder="Write a comment... (Markdown supported)"
+          />
+          <div className="flex justify-end">
+            <Button type="button" size="sm" onClick={handlePost} disabled={!body.trim()}>Comment</Button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function CommentRow({ comment, isOwn, actions }: { comment: CardComment; isOwn: boolean; actions: CommentActions }) {
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(comment.body);
+  const edited = comment.updated_at !== comment.created_at;
+
+  function startEdit() {
+    setDraft(comment.body);
+    setEditing(true);
+  }
+
+  function commitEdit() {
+    const text = draft.trim();
+    setEditing(false);
+    if (text && text !== comment.body) void actions.edit(comment, text);
+  }
+
+  return (
+    <li className="group flex gap-2">
+      <Avatar viewer={{ userId: comment.author_id, email: comment.author_email }} size="sm" />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline gap-2 text-xs">
+          <span className="font-medium text-neutral-800">{comment.author_email.split("@")[0]}</span>
+          <time dateTime={comment.created_at} title={new Date(comment.created_at).toLocaleString()} className="text-neutral-500">
+            {new Date(comment.created_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+          </time>
+          {edited && <span className="text-neutral-400" title={`Edited ${new Date(comment.updated_at).toLocaleString()}`}>(edited)</span>}
+          {isOwn && !editing && (
+            <div className="ml-auto flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+              <Button type="button" size="iconXs" variant="outline" aria-label="Edit comment" onClick={startEdit}>
+                <Pencil className="size-3" />
+              </Button>
+              <Button type="button" size="iconXs" variant="destructive" aria-label="Delete comment" onClick={() => void actions.remove(comment)}>
+                <Trash2 className="size-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+        {editing ? (
+          <div className="mt-1 space-y-2">
+            <Textarea
+              aria-label="Edit comment"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); commitEdit(); }
+                if (e.key === "Escape") { e.preventDefault(); e.stopPropagation(); setEditing(false); }
+              }}
+              rows={3}
+              className="text-sm"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+              <Button type="button" size="sm" onClick={commitEdit} disabled={!draft.trim()}>Save</Button>
+            </div>
+          </div>
+        ) : (
+          <Markdown source={comment.body} compact className="mt-0.5 text-sm text-neutral-800" />
+        )}
+      </div>
+    </li>
+  );
+}
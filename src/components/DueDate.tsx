@@ -0,0 +1,80 @@
+"use client";
+
+import React from "react";
+import { CalendarClock, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { dueStatus, formatDue, type DueStatus } from "@/lib/dueDates";
+
+const STATUS_CLASSES: Record<DueStatus, string> = {
+  overdue: "bg-red-100 text-red-700 ring-red-200",
+  today: "bg-amber-100 text-amber-800 ring-amber-200",
+  week: "bg-neutral-100 text-neutral-700 ring-neutral-200",
+  later: "bg-neutral-50 text-neutral-500 ring-neutral-200",
+};
+
+const STATUS_LABELS: Record<DueStatus, string> = {
+  overdue: "Overdue",
+  today: "Due today",
+  week: "Due this week",
+  later: "Due",
+};
+
+export function DueChip({ date, time, className }: { date: string; time?: string | null; className?: string }) {
+  const status = dueStatus(date, time);
+  return (
+    <span
+      title={`${STATUS_LABELS[status]}: ${formatDue(date, time)}`}
+      className={`inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[11px] font-medium ring-1 ${STATUS_CLASSES[status]} ${className ?? ""}`}
+    >
+      <CalendarClock className="size-3" />
+      {formatDue(date, time)}
+    </span>
+  );
+}
+
+// Date + optional time inputs used by the add and edit forms
+export default function DueDateFields({
+  id,
+  date,
+  time,
+  onChange,
+}: {
+  id: string;
+  date: string;
+  time: string;
+  onChange: (date: string, time: string) => void;
+}) {
+  return (
+    <div>
+      <Label htmlFor={`${id}-date`}>Due</Label>
+      <div className="mt-1 flex items-center gap-2">
+        <Input
+          id={`${id}-date`}
+          type="date"
+          value={date}
+          onChange={(e) => onChange(e.target.value, e.target.value ? time : "")}
+          className="flex-1"
+        />
+        <Input
+          aria-label="Due time (optional)"
+          type="time"
+          value={time}
+          disabled={!date}
+          onChange={(e) => onChange(date, e.target.value)}
+          className="w-32"
+        />
+        {date && (
+          <button
+            type="button"
+            aria-label="Clear due date"
+            onClick={() => onChange("", "")}
+            className="rounded p-1 text-neutral-500 hover:bg-neutral-100 hover:text-neutral-800"
+          >
+            <X className="size-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import React from "react";
+import { highlightParts } from "@/lib/search";
+
+// Text with the search terms marked
+export default function Highlight({ text, terms }: { text: string; terms?: string[] }) {
+  if (!terms?.length) return <>{text}</>;
+  return (
+    <>
+      {highlightParts(text, terms).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">{part.text}</mark>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -8,18 +8,22 @@ import {
   DragOverlay,
   DragStartEvent,
   PointerSensor,
+  KeyboardSensor,
   useSensor,
   useSensors,
   closestCorners,
   rectIntersection,
   CollisionDetection,
+  type Announcements,
   type DraggableAttributes,
+  type ScreenReaderInstructions,
 } from "@dnd-kit/core";
 import { useDroppable } from "@dnd-kit/core";
 import {
   SortableContext,
   verticalListSortingStrategy,
   arrayMove,
+  sortableKeyboardCoordinates,
 } from "@dnd-kit/sortable";
 import {
   useSortable,
@@ -27,13 +31,59 @@ import {
 
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogDrawer, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Pencil, Trash2, GripVertical } from "lucide-react";
+import { Pencil, Trash2, GripVertical, Undo2, Redo2, UserCheck, Rows3, ChevronDown, ChevronRight, Command as CommandIcon } from "lucide-react";
 // import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { MAX_RANK_LENGTH, compareRanks, rankBetween, spreadRanks } from "@/lib/rank";
+import { applyQueuedWrites, enqueueWrite } from "@/lib/writeQueue";
+import { useWriteQueue } from "@/hooks/useWriteQueue";
+import { useSession } from "@/hooks/useSession";
+import { useBoardRole } from "@/hooks/useBoardRole";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { useChecklists, type ChecklistActions, type ChecklistItem } from "@/hooks/useChecklists";
+import { cardActivity, presenceByUser, type CardActivity, type PresenceState } from "@/lib/presence";
+import { COLUMN_SORTS, columnColor, defaultColumnsFor, loadColumnSorts, newColumnKey, rowToColumn, saveColumnSorts, sortColumnItems, wipStatus, wouldExceedWip, type ColumnColor, type ColumnDef, type ColumnSort } from "@/lib/columns";
+import ColumnsDialog from "@/components/ColumnsDialog";
+import BoardSwitcher from "@/components/BoardSwitcher";
+import UserMenu from "@/components/UserMenu";
+import MembersDialog from "@/components/MembersDialog";
+import PresenceAvatars, { Avatar } from "@/components/PresenceAvatars";
+import CardDetail from "@/components/CardDetail";
+import Markdown from "@/components/Markdown";
+import { parseLinks, safeHref } from "@/lib/markdown";
+import ChecklistEditor, { ChecklistProgress } from "@/components/Checklist";
+import DueDateFields, { DueChip } from "@/components/DueDate";
+import { LabelChips, LabelFilter, LabelPicker } from "@/components/Labels";
+import LabelsDialog from "@/components/LabelsDialog";
+import { matchesLabelFilter, rowLabelIds, type LabelDef } from "@/lib/labels";
+import { useLabels } from "@/hooks/useLabels";
+import { useAssignees, type BoardMember } from "@/hooks/useAssignees";
+import { AssigneeAvatars, AssigneePicker } from "@/components/Assignees";
+import { useComments, type CardComment, type CommentActions } from "@/hooks/useComments";
+import { diffCardFields, recordCardEvent, recordCardMove } from "@/lib/cardEvents";
+import CommentThread, { CommentCount } from "@/components/Comments";
+import CardTimeline from "@/components/CardTimeline";
+import Highlight from "@/components/Highlight";
+import SearchBox from "@/components/SearchBox";
+import { isEmptyQuery, matchesQuery, parseQuery } from "@/lib/search";
+import { DUE_FILTERS, matchesDueFilter, type DueFilter } from "@/lib/dueDates";
+import { toPriority, type Priority } from "@/lib/priority";
+import PrioritySelect, { PriorityIcon } from "@/components/Priority";
+import { useCommandPalette, useRegisterCommands } from "@/hooks/useCommands";
+import { useLanes } from "@/hooks/useLanes";
+import LanesDialog from "@/components/LanesDialog";
+import { useRecurrences, type RecurrenceActions } from "@/hooks/useRecurrences";
+import RecurrenceEditor, { RepeatIcon } from "@/components/Recurrence";
+import type { Recurrence } from "@/lib/recurrence";
+import { NO_LANE, laneCellId, laneOf, loadLaneView, parseLaneCellId, saveLaneView, type LaneView } from "@/lib/lanes";
+import { useTemplates } from "@/hooks/useTemplates";
+import TemplatesDialog, { TemplatePicker } from "@/components/TemplatesDialog";
+import { applyTemplate, type TemplateFields } from "@/lib/templates";
+import type { Command } from "@/lib/commands";
 
 type LinkItem = { label: string; href: string };
 type KanbanItem = {
@@ -41,19 +91,150 @@ type KanbanItem = {
   title: string;
   description?: string;
   links?: LinkItem[];
+  rank?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  // YYYY-MM-DD and optional HH:MM, local to whoever views the card
+  dueDate?: string;
+  dueTime?: string;
+  labelIds?: string[];
+  priority?: Priority;
+  laneId?: string;
 };
 
-type ColumnKey = "todo" | "doing" | "done" | "temp";
+// Column keys come from kanban_columns, so they are plain strings
+type ColumnKey = string;
 
 type BoardState = Record<ColumnKey, KanbanItem[]>;
 
-const initialBoard: BoardState = { todo: [], doing: [], done: [], temp: [] };
+const initialBoard: BoardState = {};
 
-const columnMeta: Record<ColumnKey, { title: string; bg: string; ring: string }> = {
-  todo: { title: "To-do", bg: "bg-[#E8F0FE]", ring: "ring-[#a7c0ff]" },
-  doing: { title: "In-progress", bg: "bg-[#EAF7F1]", ring: "ring-[#b6e3cf]" },
-  done: { title: "Done", bg: "bg-[#F4F0FF]", ring: "ring-[#d6c8ff]" },
-  temp: { title: "Temp", bg: "bg-[#FFF6E5]", ring: "ring-[#ffd9a5]" },
+// Map a kanban_cards row (from a query or a realtime payload) to a board item
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function rowToItem(row: any): KanbanItem {
+  const links = Array.isArray(row.links)
+    ? (row.links as { label?: string; href: string }[]).map((l, i) => ({
+        label: l.label ?? `Link ${i + 1}`,
+        href: l.href,
+      }))
+    : undefined;
+  return {
+    id: String(row.id),
+    title: row.title,
+    description: row.description ?? undefined,
+    links,
+    rank: row.rank ?? undefined,
+    createdAt: row.created_at ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
+    dueDate: row.due_date ?? undefined,
+    // Postgres returns HH:MM:SS
+    dueTime: row.due_time ? String(row.due_time).slice(0, 5) : undefined,
+    labelIds: rowLabelIds(row),
+    priority: toPriority(row.priority),
+    laneId: row.lane_id ?? undefined,
+  };
+}
+
+// Map a board item back to the kanban_cards columns it is stored in
+function itemToRow(item: KanbanItem, col: ColumnKey) {
+  const links = (item.links || []).map((l, i) => ({ label: l.label ?? `Link ${i + 1}`, href: l.href }));
+  return {
+    id: item.id,
+    title: item.title,
+    description: item.description ?? null,
+    links: links.length ? links : null,
+    column_key: col,
+    rank: item.rank ?? null,
+    due_date: item.dueDate ?? null,
+    due_time: item.dueDate ? item.dueTime ?? null : null,
+    label_ids: item.labelIds ?? [],
+    priority: item.priority ?? "none",
+    lane_id: item.laneId ?? null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Insert an item at its rank position (unranked items go on top, like before ranks existed)
+function insertByRank(items: KanbanItem[], item: KanbanItem): KanbanItem[] {
+  if (!item.rank) return [item, ...items];
+  const index = items.findIndex(existing => compareRanks(existing.rank, item.rank) > 0);
+  return index === -1 ? [...items, item] : [...items.slice(0, index), item, ...items.slice(index)];
+}
+
+// Apply a kanban_cards row from a realtime UPDATE to the board. With keepPlacement only the
+// card's content changes; its column, rank and lane stay where the local user put them.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function applyCardUpdate(board: BoardState, row: any, keepPlacement = false): BoardState {
+  const incoming = rowToItem(row);
+  const targetCol = row.column_key as ColumnKey;
+  const currentCol = (Object.keys(board) as ColumnKey[]).find(col => board[col].some(item => item.id === incoming.id));
+  const current = currentCol ? board[currentCol].find(item => item.id === incoming.id) : undefined;
+
+  if (currentCol && current && (keepPlacement || (currentCol === targetCol && current.rank === incoming.rank))) {
+    // Content-only change: replace in place so the card doesn't jump
+    return {
+      ...board,
+      [currentCol]: board[currentCol].map(item =>
+        item.id === incoming.id
+          ? { ...incoming, rank: keepPlacement ? item.rank : incoming.rank, laneId: keepPlacement ? item.laneId : incoming.laneId }
+          : item
+      ),
+    };
+  }
+  if (!(targetCol in board)) return board;
+
+  const next = { ...board };
+  if (currentCol) {
+    next[currentCol] = next[currentCol].filter(item => item.id !== incoming.id);
+  }
+  next[targetCol] = insertByRank(next[targetCol], incoming);
+  return next;
+}
+
+// True when a realtime row carries nothing the board doesn't already show
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function matchesBoard(board: BoardState, row: any) {
+  const incoming = rowToItem(row);
+  const current = board[row.column_key as ColumnKey]?.find(item => item.id === incoming.id);
+  return !!current &&
+    current.title === incoming.title &&
+    (current.description ?? null) === (incoming.description ?? null) &&
+    (current.rank ?? null) === (incoming.rank ?? null) &&
+    (current.dueDate ?? null) === (incoming.dueDate ?? null) &&
+    (current.dueTime ?? null) === (incoming.dueTime ?? null) &&
+    JSON.stringify(current.labelIds ?? []) === JSON.stringify(incoming.labelIds ?? []) &&
+    (current.priority ?? "none") === (incoming.priority ?? "none") &&
+    (current.laneId ?? null) === (incoming.laneId ?? null) &&
+    JSON.stringify(current.links ?? []) === JSON.stringify(incoming.links ?? []);
+}
+
+// Queue column_key + rank for every given card; resolves to the first error, if any
+async function writeRanks(col: ColumnKey, items: KanbanItem[]) {
+  const results = await Promise.all(
+    items.map(item =>
+      enqueueWrite({
+        table: "kanban_cards",
+        action: "update",
+        rowId: item.id,
+        values: { column_key: col, rank: item.rank },
+      })
+    )
+  );
+  return results.find(r => r.error)?.error ?? null;
+}
+
+// How long a locally written updated_at is remembered for echo suppression
+const ECHO_WINDOW_MS = 30000;
+
+// True when both lists hold the same cards in the same order
+function sameOrder(a: KanbanItem[], b: KanbanItem[]) {
+  return a.length === b.length && a.every((item, i) => item.id === b[i].id);
+}
+
+const screenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    "To pick up a card, press space. Use the arrow keys to move it up and down a column or to another column. " +
+    "Press space again to drop it, or escape to cancel.",
 };
 
 // Custom collision detection for better drop accuracy
@@ -69,26 +250,99 @@ const collisionDetectionStrategy: CollisionDetection = (args) => {
   return closestCorners(args);
 };
 
-export default function KanbanBoard() {
+export default function KanbanBoard({ boardId }: { boardId: string }) {
   const [board, setBoard] = React.useState<BoardState>(initialBoard);
   const [addOpen, setAddOpen] = React.useState(false);
   const [newTitle, setNewTitle] = React.useState("");
   const [newDesc, setNewDesc] = React.useState("");
   const [newLinks, setNewLinks] = React.useState("");
-  const [newColumn, setNewColumn] = React.useState<ColumnKey>("todo");
+  const [newDueDate, setNewDueDate] = React.useState("");
+  const [newDueTime, setNewDueTime] = React.useState("");
+  const [newLabelIds, setNewLabelIds] = React.useState<string[]>([]);
+  const [newPriority, setNewPriority] = React.useState<Priority>("none");
+  const [newAssigneeIds, setNewAssigneeIds] = React.useState<string[]>([]);
+  const [newLaneId, setNewLaneId] = React.useState("");
+  const [dueFilter, setDueFilter] = React.useState<DueFilter>("all");
+  const [labelFilter, setLabelFilter] = React.useState<string[]>([]);
+  const [mineOnly, setMineOnly] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+  const searchQuery = React.useMemo(() => parseQuery(search), [search]);
+  const [columnSorts, setColumnSorts] = React.useState<Record<ColumnKey, ColumnSort>>(() => loadColumnSorts(boardId));
+  const [laneView, setLaneView] = React.useState<LaneView>(() => loadLaneView(boardId));
+  const [columns, setColumns] = React.useState<ColumnDef[]>([]);
+  const [newColumn, setNewColumn] = React.useState<ColumnKey>("");
   const [activeId, setActiveId] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = React.useState<'connecting' | 'connected' | 'disconnected'>('connecting');
   const [isSaving, setIsSaving] = React.useState(false);
   const [saveSuccess, setSaveSuccess] = React.useState(false);
-  const loadingRef = React.useRef(false);
+  const { pendingCount, failedCount, flush, retryFailed, discardFailed } = useWriteQueue();
+  const history = useUndoHistory();
+  // Viewers (and everyone until the role has loaded) get a read-only board
+  const { canEdit, canManage } = useBoardRole(boardId);
+  const { user } = useSession();
+  const userId = user?.id ?? null;
+  const userEmail = user?.email ?? "";
+  const [presence, setPresence] = React.useState<PresenceState[]>([]);
+  const checklists = useChecklists(boardId, setError);
+  const { labels, actions: labelActions } = useLabels(boardId, setError);
+  const assignees = useAssignees(boardId, setError);
+  const comments = useComments(boardId, setError);
+  const recurrences = useRecurrences(boardId, setError);
+  const { lanes, actions: laneActions } = useLanes(boardId, setError);
+  const { templates, actions: templateActions } = useTemplates(boardId, setError);
+  // Grouping by lane is a view setting; it only applies once the board has lanes
+  const lanesShown = laneView.enabled && lanes.length > 0;
+  const [undoToast, setUndoToast] = React.useState<string | null>(null);
+  const toastTimerRef = React.useRef<NodeJS.Timeout | null>(null);
   const pendingUpdatesRef = React.useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const dragOriginRef = React.useRef<{ column: ColumnKey; snapshot: BoardState } | null>(null);
+  const rebalanceTimersRef = React.useRef<Map<ColumnKey, NodeJS.Timeout>>(new Map());
+  // updated_at values (ms) this client has written per card, used to recognise realtime echoes
+  const localWritesRef = React.useRef<Map<string, number[]>>(new Map());
+  // Realtime updates held back while a drag is in progress
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const deferredUpdatesRef = React.useRef<Map<string, any>>(new Map());
+  const boardRef = React.useRef<BoardState>(board);
+  // This client's presence payload, re-sent whenever it changes
+  const presenceRef = React.useRef<PresenceState | null>(null);
+  const channelRef = React.useRef<ReturnType<typeof supabase.channel> | null>(null);
+  // Refetches columns and cards; set by the load effect
+  const reloadRef = React.useRef<() => Promise<void>>(async () => {});
+  // The card last focused on the board, which the palette's card commands act on
+  const [focusedCardId, setFocusedCardId] = React.useState<string | null>(null);
+  const openPalette = useCommandPalette();
+
+  React.useEffect(() => {
+    boardRef.current = board;
+  }, [board]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  const { undo, redo } = history;
+  React.useEffect(() => {
+    if (!canEdit) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        void (e.shiftKey ? redo() : undo());
+      } else if (key === "y") {
+        e.preventDefault();
+        void redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, canEdit]);
 
   // Helper function to ensure no duplicate items across columns
   const ensureUniqueItems = React.useCallback((boardState: BoardState): BoardState => {
     const seenIds = new Set<string>();
-    const cleanBoard: BoardState = { todo: [], doing: [], done: [], temp: [] };
+    const cleanBoard: BoardState = {};
     
     for (const [colKey, items] of Object.entries(boardState) as [ColumnKey, KanbanItem[]][]) {
       cleanBoard[colKey] = items.filter(item => {
@@ -104,44 +358,67 @@ export default function KanbanBoard() {
     return cleanBoard;
   }, []);
 
+  // Re-runs (fetch and subscribe again) whenever the board or the signed-in user changes;
+  // the session resolves after the first render, and presence needs the user
   React.useEffect(() => {
-    if (loadingRef.current) return;
-    loadingRef.current = true;
-    
     // Capture ref values for cleanup
     const pendingUpdates = pendingUpdatesRef.current;
+    const rebalanceTimers = rebalanceTimersRef.current;
+    const deferredUpdates = deferredUpdatesRef.current;
+    const toastTimer = toastTimerRef;
     
     const fetchData = async () => {
       try {
         setError(null);
-      const { data: columns } = await supabase
+      const { data: fetchedColumns } = await supabase
         .from("kanban_columns")
-        .select("key, title, position")
+        .select("key, title, color, position, wip_limit, wip_mode")
+        .eq("board_id", boardId)
         .order("position", { ascending: true });
 
-      const { data: cards } = await supabase
+      const columnRows = await applyQueuedWrites("kanban_columns", fetchedColumns || [], { board_id: boardId });
+      let loadedColumns = columnRows.map(rowToColumn).sort((a, b) => a.position - b.position);
+      if (loadedColumns.length === 0) {
+        // A board without columns (e.g. created outside the app) gets the default set
+        const defaults = defaultColumnsFor(boardId);
+        for (const col of defaults) {
+          void enqueueWrite({ table: "kanban_columns", action: "insert", rowId: col.key, idColumn: "key", values: col });
+        }
+        loadedColumns = defaults.map(rowToColumn);
+      }
+
+      const { data: fetchedCards } = await supabase
         .from("kanban_cards")
-        .select("id, title, description, links, column_key, position")
+        .select("id, title, description, links, column_key, position, rank, created_at, updated_at, due_date, due_time, label_ids, priority, lane_id")
+        .eq("board_id", boardId)
+        .order("rank", { ascending: true, nullsFirst: false })
         .order("position", { ascending: true });
 
-      const next: BoardState = { todo: [], doing: [], done: [], temp: [] };
-      for (const col of columns || []) {
-        const colKey = col.key as ColumnKey;
-        next[colKey] = [];
+      // Include local changes that are still waiting in the offline queue
+      const cards = (await applyQueuedWrites("kanban_cards", fetchedCards || [], { board_id: boardId }))
+        .sort((a, b) => compareRanks(a.rank, b.rank));
+
+      const next: BoardState = {};
+      for (const col of loadedColumns) {
+        next[col.key] = [];
       }
       for (const c of cards || []) {
-        const colKey = (c.column_key as ColumnKey) ?? "todo";
-        const links = Array.isArray(c.links)
-          ? (c.links as { label?: string; href: string }[]).map((l, i) => ({
-              label: l.label ?? `Link ${i + 1}`,
-              href: l.href,
-            }))
-          : undefined;
-        next[colKey] = [
-          ...next[colKey],
-          { id: String(c.id), title: c.title, description: c.description ?? undefined, links },
-        ];
+        // Cards whose column no longer exists show up in the first column
+        const colKey = c.column_key in next ? (c.column_key as ColumnKey) : loadedColumns[0].key;
+        next[colKey] = [...next[colKey], rowToItem(c)];
       }
+      // Cards created before ranks existed: give their columns fresh ranks, keeping the loaded order
+      for (const colKey of Object.keys(next) as ColumnKey[]) {
+        if (next[colKey].some(item => !item.rank)) {
+          const ranks = spreadRanks(next[colKey].length);
+          next[colKey] = next[colKey].map((item, i) => ({ ...item, rank: ranks[i] }));
+          void writeRanks(colKey, next[colKey]).then(error => {
+            if (error) console.error(`Error backfilling ranks for column ${colKey}:`, error);
+          });
+        }
+      }
+        setColumns(loadedColumns);
+        setNewColumn(loadedColumns[0].key);
         setBoard(ensureUniqueItems(next));
         setLoading(false);
       } catch (error) {
@@ -151,46 +428,80 @@ export default function KanbanBoard() {
       }
     };
 
+    reloadRef.current = fetchData;
     fetchData();
 
-    // Set up real-time subscription only for INSERT and DELETE events
-    // No real-time updates for column changes to prevent glitching
+    presenceRef.current = userId
+      ? { user_id: userId, email: userEmail, editing: null, dragging: null, online_at: new Date().toISOString() }
+      : null;
+
+    // Set up real-time subscription for INSERT, UPDATE and DELETE events, plus presence
     const subscription = supabase
-      .channel('kanban_cards_changes')
+      .channel(`kanban_cards_changes:${boardId}`, { config: { presence: { key: userId ?? "" } } })
+      .on('presence', { event: 'sync' }, () => {
+        setPresence(presenceByUser(subscription.presenceState<PresenceState>()));
+      })
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'kanban_cards'
+          table: 'kanban_cards',
+          filter: `board_id=eq.${boardId}`
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         (payload: any) => {
           console.log('Real-time INSERT event:', payload);
           if (payload.new) {
             const newCard = payload.new;
-            const colKey = (newCard.column_key as ColumnKey) ?? "todo";
-            const links = Array.isArray(newCard.links)
-              ? (newCard.links as { label?: string; href: string }[]).map((l, i) => ({
-                  label: l.label ?? `Link ${i + 1}`,
-                  href: l.href,
-                }))
-              : undefined;
-            const newItem: KanbanItem = {
-              id: String(newCard.id),
-              title: newCard.title,
-              description: newCard.description ?? undefined,
-              links,
-            };
-            setBoard(prev => ensureUniqueItems({
-              ...prev,
-              [colKey]: [newItem, ...prev[colKey]]
-            }));
+            const newItem = rowToItem(newCard);
+            setBoard(prev => {
+              const colKey = newCard.column_key in prev ? (newCard.column_key as ColumnKey) : Object.keys(prev)[0];
+              if (!colKey) return prev;
+              return ensureUniqueItems({
+                ...prev,
+                [colKey]: insertByRank(prev[colKey], newItem)
+              });
+            });
           }
         }
       )
       .on(
         'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'kanban_cards',
+          filter: `board_id=eq.${boardId}`
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (payload: any) => {
+          console.log('Real-time UPDATE event:', payload);
+          if (!payload.new) return;
+          const row = payload.new;
+          const cardId = String(row.id);
+
+          // Echo of a write made by this client - local state is already ahead of it
+          const ownWrites = localWritesRef.current.get(cardId);
+          if (ownWrites && row.updated_at && ownWrites.includes(Date.parse(row.updated_at))) {
+            return;
+          }
+          if (matchesBoard(boardRef.current, row)) {
+            return;
+          }
+
+          // Don't move cards under an in-progress drag; apply once it ends
+          if (dragOriginRef.current) {
+            deferredUpdatesRef.current.set(cardId, row);
+            return;
+          }
+
+          setBoard(prev => ensureUniqueItems(applyCardUpdate(prev, row)));
+        }
+      )
+      .on(
+        'postgres_changes',
+        // Realtime can't filter DELETE events; ids from other boards simply match nothing here
         {
           event: 'DELETE',
           schema: 'public',
@@ -202,6 +513,7 @@ export default function KanbanBoard() {
           if (payload.old) {
             const deletedCard = payload.old;
             const cardId = String(deletedCard.id);
+            deferredUpdatesRef.current.delete(cardId);
             
             // Clear any pending timeout for this card
             const existingTimeout = pendingUpdatesRef.current.get(cardId);
@@ -224,21 +536,49 @@ export default function KanbanBoard() {
         console.log('Subscription status:', status);
         if (status === 'SUBSCRIBED') {
           setConnectionStatus('connected');
+          // Connection is back - replay whatever was queued while offline
+          void flush();
+          if (presenceRef.current) void subscription.track(presenceRef.current);
         } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
           setConnectionStatus('disconnected');
         }
       });
 
+    channelRef.current = subscription;
+
     // Cleanup subscription and timeouts on unmount
     return () => {
+      channelRef.current = null;
       subscription.unsubscribe();
       // Clear all pending timeouts
       pendingUpdates.forEach((timeout) => {
         clearTimeout(timeout);
       });
       pendingUpdates.clear();
+      rebalanceTimers.forEach((timeout) => {
+        clearTimeout(timeout);
+      });
+      rebalanceTimers.clear();
+      deferredUpdates.clear();
+      if (toastTimer.current) clearTimeout(toastTimer.current);
     };
-  }, [ensureUniqueItems]);
+  }, [boardId, ensureUniqueItems, flush, userId, userEmail]);
+
+  function updatePresence(patch: Partial<Pick<PresenceState, "editing" | "dragging">>) {
+    if (!presenceRef.current) return;
+    presenceRef.current = { ...presenceRef.current, ...patch };
+    void channelRef.current?.track(presenceRef.current);
+  }
+
+  function handleEditingChange(id: string, open: boolean) {
+    const editing = presenceRef.current?.editing ?? null;
+    updatePresence({ editing: open ? id : editing === id ? null : editing });
+  }
+
+  const activity = React.useMemo(
+    () => cardActivity(presence.filter(p => p.user_id !== userId)),
+    [presence, userId]
+  );
 
   // Configure sensors for better drag detection
   const sensors = useSensors(
@@ -248,11 +588,41 @@ export default function KanbanBoard() {
         delay: 100, // Small delay for better UX
         tolerance: 5, // Tolerance for movement
       },
-    })
+    }),
+    // Space picks up the focused card, the arrow keys move it within and across columns
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   );
+  const noSensors = useSensors();
 
   function handleDragStart(event: DragStartEvent) {
-    setActiveId(event.active.id as string);
+    const id = event.active.id as string;
+    const column = findContainer(id);
+    // Remember where the card came from so the drop can be persisted (or rolled back)
+    dragOriginRef.current = column ? { column, snapshot: board } : null;
+    setActiveId(id);
+    updatePresence({ dragging: id });
+  }
+
+  function handleDragCancel() {
+    // Undo the preview moves made by handleDragOver
+    if (dragOriginRef.current) {
+      setBoard(dragOriginRef.current.snapshot);
+    }
+    dragOriginRef.current = null;
+    setActiveId(null);
+    updatePresence({ dragging: null });
+    flushDeferredUpdates(null);
+  }
+
+  // Apply realtime updates that arrived mid-drag. The dropped card keeps the placement the
+  // local user just gave it (that write is newer); remote content edits still come through.
+  function flushDeferredUpdates(movedId: string | null) {
+    const deferred = Array.from(deferredUpdatesRef.current.values());
+    deferredUpdatesRef.current.clear();
+    if (deferred.length === 0) return;
+    setBoard(prev => ensureUniqueItems(
+      deferred.reduce((acc, row) => applyCardUpdate(acc, row, String(row.id) === movedId), prev)
+    ));
   }
 
   function handleDragOver(event: DragOverEvent) {
@@ -268,8 +638,15 @@ export default function KanbanBoard() {
     const overContainer = findContainer(overId);
     
     if (!activeContainer || !overContainer) return;
+
+    // With lanes shown, a card dragged into another lane's cell takes that lane
+    const targetLane = lanesShown ? findLane(overId) : undefined;
+    const withLane = (item: KanbanItem) =>
+      targetLane === undefined || laneOf(item.laneId, lanes) === targetLane ? item : { ...item, laneId: targetLane ?? undefined };
     
     if (activeContainer !== overContainer) {
+      // A full column that blocks moves doesn't take the card, not even as a preview
+      if (wipBlocks(overContainer)) return;
       setBoard((prev) => {
         const activeItems = prev[activeContainer];
         const overItems = prev[overContainer];
@@ -279,7 +656,7 @@ export default function KanbanBoard() {
         const overIndex = overItems.findIndex((item) => item.id === overId);
         
         let newIndex: number;
-        if (overId in prev) {
+        if (overId in prev || parseLaneCellId(overId)) {
           // We're over a container
           newIndex = overItems.length + 1;
         } else {
@@ -295,21 +672,35 @@ export default function KanbanBoard() {
           [activeContainer]: prev[activeContainer].filter((item) => item.id !== activeId),
           [overContainer]: [
             ...prev[overContainer].slice(0, newIndex),
-            prev[activeContainer][activeIndex],
+            withLane(prev[activeContainer][activeIndex]),
             ...prev[overContainer].slice(newIndex, prev[overContainer].length),
           ],
         };
       });
+    } else if (targetLane !== undefined) {
+      setBoard((prev) => {
+        const items = prev[overContainer];
+        const from = items.findIndex((item) => item.id === activeId);
+        if (from === -1 || laneOf(items[from].laneId, lanes) === targetLane) return prev;
+        // Same column, another lane: the card takes the place of the card it is over
+        // (a sorted column has no places, so only the lane changes)
+        const to = (columnSorts[overContainer] ?? "manual") === "manual" ? items.findIndex((item) => item.id === overId) : -1;
+        const next = items.map((item) => (item.id === activeId ? withLane(item) : item));
+        return { ...prev, [overContainer]: to >= 0 ? arrayMove(next, from, to) : next };
+      });
     }
   }
 
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event;
+    const origin = dragOriginRef.current;
+    dragOriginRef.current = null;
     
     if (!over) {
-      setActiveId(null);
+      handleDragCancel();
       return;
     }
+    updatePresence({ dragging: null });
 
     const activeId = active.id as string;
     const overId = over.id as string;
@@ -321,52 +712,146 @@ export default function KanbanBoard() {
       setActiveId(null);
       return;
     }
+
+    if (activeContainer !== overContainer && wipBlocks(overContainer)) {
+      // Dropped on a full column that blocks moves: the card goes back where it started
+      dragOriginRef.current = origin;
+      handleDragCancel();
+      setError(`${columnInfo(overContainer).title} is at its WIP limit of ${columns.find(c => c.key === overContainer)?.wip_limit}. Finish or move a card out first.`);
+      return;
+    }
     
-    if (activeContainer === overContainer) {
-      // Same container sorting - keep local for speed
+    let nextBoard = board;
+    if (activeContainer === overContainer && (columnSorts[overContainer] ?? "manual") !== "manual") {
+      // The column is showing a sorted order, so there is no manual position to drop into
+    } else if (activeContainer === overContainer) {
+      // Same container sorting
       const activeIndex = board[activeContainer].findIndex((item) => item.id === activeId);
       const overIndex = board[overContainer].findIndex((item) => item.id === overId);
       
-      if (activeIndex !== overIndex) {
-        setBoard((prev) => ({
-          ...prev,
-          [overContainer]: arrayMove(prev[overContainer], activeIndex, overIndex),
-        }));
-        // Persist order for this column in background
-        void persistColumnPositions(overContainer);
+      if (overIndex >= 0 && activeIndex !== overIndex) {
+        nextBoard = {
+          ...board,
+          [overContainer]: arrayMove(board[overContainer], activeIndex, overIndex),
+        };
       }
     } else {
-      // Moved across columns - update locally only, no database persistence
+      // handleDragOver did not get a chance to move the card - append it to the target column
       const activeItem = board[activeContainer].find(item => item.id === activeId);
       if (activeItem) {
-        // Cancel any existing pending update for this card
-        const existingTimeout = pendingUpdatesRef.current.get(activeId);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-          pendingUpdatesRef.current.delete(activeId);
-        }
-        
-        // Update local state immediately - no database persistence for column changes
-        setBoard((prev) => {
-          const newBoard = { ...prev };
-          // Remove from source column
-          newBoard[activeContainer] = newBoard[activeContainer].filter(item => item.id !== activeId);
-          // Add to target column
-          newBoard[overContainer] = [...newBoard[overContainer], activeItem];
-          return ensureUniqueItems(newBoard);
+        nextBoard = ensureUniqueItems({
+          ...board,
+          [activeContainer]: board[activeContainer].filter(item => item.id !== activeId),
+          [overContainer]: [...board[overContainer], activeItem],
         });
-        
-        console.log(`Card ${activeId} moved from ${activeContainer} to ${overContainer} - local only`);
       }
     }
+    if (lanesShown) {
+      // Usually handleDragOver has given the card the lane it was dropped in already
+      const lane = findLane(overId);
+      const placed = nextBoard[overContainer].find(item => item.id === activeId);
+      if (placed && laneOf(placed.laneId, lanes) !== lane) {
+        nextBoard = {
+          ...nextBoard,
+          [overContainer]: nextBoard[overContainer].map(item => (item.id === activeId ? { ...item, laneId: lane ?? undefined } : item)),
+        };
+      }
+    }
+    if (nextBoard !== board) {
+      setBoard(nextBoard);
+    }
+
+    const fromColumn = origin?.column ?? activeContainer;
+    const snapshot = origin?.snapshot ?? board;
+    const laneBefore = snapshot[fromColumn]?.find(item => item.id === activeId)?.laneId ?? null;
+    const laneAfter = nextBoard[overContainer].find(item => item.id === activeId)?.laneId ?? null;
+    const moved = fromColumn !== overContainer || !sameOrder(snapshot[overContainer], nextBoard[overContainer]) || laneBefore !== laneAfter;
+    if (moved) {
+      // Cancel any existing pending update for this card
+      const existingTimeout = pendingUpdatesRef.current.get(activeId);
+      if (existingTimeout) {
+        clearTimeout(existingTimeout);
+        pendingUpdatesRef.current.delete(activeId);
+      }
+      void persistMove(activeId, fromColumn, overContainer, nextBoard, snapshot);
+    }
     
     setActiveId(null);
+    flushDeferredUpdates(moved ? activeId : null);
+  }
+
+  // One more card would take the column past its WIP limit, and the column refuses that
+  function wipBlocks(col: ColumnKey) {
+    const column = columns.find(c => c.key === col);
+    return !!column && column.wip_mode === "block" && wouldExceedWip(column, boardRef.current[col]?.length ?? 0);
+  }
+
+  // Appended to move messages when the target column is now over its (warn-only) limit
+  function wipWarning(col: ColumnKey, count: number) {
+    const column = columns.find(c => c.key === col);
+    return column && wipStatus(column, count) === "over" ? ` - over its WIP limit of ${column.wip_limit}` : "";
+  }
+
+  // Where the dragged card would land, for screen readers: "In progress, position 2 of 5".
+  // Positions count the cards on screen; a sorted column has no manual position to give.
+  function describeDropPosition(activeId: string, overId: string) {
+    const col = findContainer(overId);
+    if (!col) return "an unknown column";
+    // With lanes shown, positions count the cards in the lane's cell
+    const lane = lanesShown ? findLane(overId) : undefined;
+    const title = lane === undefined ? columnInfo(col).title : `${columnInfo(col).title} in ${laneName(lane) ?? "No lane"}`;
+    const sort = columnSorts[col] ?? "manual";
+    if (sort !== "manual") return `${title} (sorted by ${COLUMN_SORTS[sort].toLowerCase()})`;
+    const items = visibleItems(col).filter(item => lane === undefined || laneOf(item.laneId, lanes) === lane);
+    const others = items.filter(item => item.id !== activeId);
+    let index: number;
+    if (findContainer(activeId) === col && items.some(item => item.id === activeId)) {
+      // A reorder takes the position of the card it is over
+      index = items.findIndex(item => item.id === (overId === col || parseLaneCellId(overId) ? activeId : overId));
+    } else {
+      // Dropped into another column (or lane) it goes before the card it is over
+      index = others.findIndex(item => item.id === overId);
+    }
+    if (index < 0) index = others.length;
+    return `${title}, position ${index + 1} of ${others.length + 1}`;
+  }
+
+  const cardTitle = (id: string | number) => findCard(String(id))?.item.title ?? "card";
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) =>
+      `Picked up "${cardTitle(active.id)}" in ${describeDropPosition(String(active.id), String(active.id))}.`,
+    onDragOver: ({ active, over }) => {
+      const to = over ? findContainer(String(over.id)) : undefined;
+      if (to && to !== findContainer(String(active.id)) && wipBlocks(to)) {
+        return `"${cardTitle(active.id)}" can't go to ${columnInfo(to).title}: the column is at its WIP limit.`;
+      }
+      return over
+        ? `Moved "${cardTitle(active.id)}" to ${describeDropPosition(String(active.id), String(over.id))}.`
+        : `"${cardTitle(active.id)}" is no longer over a column.`;
+    },
+    onDragEnd: ({ active, over }) =>
+      over
+        ? `Dropped "${cardTitle(active.id)}" in ${describeDropPosition(String(active.id), String(over.id))}.`
+        : `"${cardTitle(active.id)}" was dropped outside the board and returned to where it was.`,
+    onDragCancel: ({ active }) => `Moving cancelled. "${cardTitle(active.id)}" returned to where it was.`,
+  };
+
+  // Record an updated_at this client is about to write so its realtime echo can be skipped
+  function markLocalWrite(id: string, updatedAt: string) {
+    const now = Date.now();
+    const recent = (localWritesRef.current.get(id) ?? []).filter(ts => now - ts < ECHO_WINDOW_MS);
+    localWritesRef.current.set(id, [...recent, Date.parse(updatedAt)]);
   }
 
   function findContainer(id: string): ColumnKey | undefined {
     if (id in board) {
       return id as ColumnKey;
     }
+    const cell = parseLaneCellId(id);
+    if (cell) {
+      return cell.columnKey in board ? cell.columnKey : undefined;
+    }
     
     for (const [key, items] of Object.entries(board)) {
       if (items.find((item) => item.id === id)) {
@@ -377,48 +862,70 @@ export default function KanbanBoard() {
     return undefined;
   }
 
-  function handleAdd(e: React.FormEvent) {
-    e.preventDefault();
-    const links = newLinks
-      .split(',')
-      .map(s => s.trim())
-      .filter(Boolean)
-      .map((href, i) => ({ label: `Link ${i + 1}`, href }));
-    (async () => {
-      const position = 0;
-      const { data, error } = await supabase
-        .from("kanban_cards")
-        .insert({
-          title: newTitle,
-          description: newDesc || null,
-          links: links.length ? links : null,
-          column_key: newColumn,
-          position,
-        })
-        .select("id, title, description, links, column_key, position")
-        .single();
-      if (!error && data) {
-        const newItem: KanbanItem = {
-          id: String(data.id),
-          title: data.title,
-          description: data.description ?? undefined,
-          links: Array.isArray(data.links)
-            ? (data.links as { label?: string; href: string }[]).map((l, i) => ({
-                label: l.label ?? `Link ${i + 1}`,
-                href: l.href,
-              }))
-            : undefined,
-        };
-        setBoard(prev => ensureUniqueItems({ ...prev, [newColumn]: [newItem, ...prev[newColumn]] }));
-        // Recompute positions after unshift
-        void persistColumnPositions(newColumn);
-        setAddOpen(false);
-        setNewTitle(""); setNewDesc(""); setNewLinks(""); setNewColumn("todo");
-      }
-    })();
+  // The lane a drop target belongs to: a lane cell's own, or the lane of the card it is over
+  function findLane(id: string): string | null {
+    const cell = parseLaneCellId(id);
+    if (cell) return laneOf(cell.laneId, lanes);
+    return laneOf(findCard(id)?.item.laneId, lanes);
   }
 
-  async function handleDelete(col: ColumnKey, id: string) {
+  const laneName = (laneId: string | null) => (laneId ? lanes.find(l => l.id === laneId)?.name ?? null : null);
+
+  // Lane changes go in the card history as an edit of its "lane"
+  function recordLaneChange(id: string, before: string | null, after: string | null) {
+    void recordCardEvent({
+      card_id: id,
+      board_id: boardId,
+      kind: "edited",
+      changes: [{ field: "lane", before: laneName(before), after: laneName(after) }],
+    });
+  }
+
+  function findCard(id: string): { col: ColumnKey; item: KanbanItem } | undefined {
+    for (const [col, items] of Object.entries(boardRef.current) as [ColumnKey, KanbanItem[]][]) {
+      const item = items.find(i => i.id === id);
+      if (item) return { col, item };
+    }
+    return undefined;
+  }
+
+  // Column key + title for the card history; titles are kept so renames don't rewrite it
+  function columnInfo(key: ColumnKey, from: ColumnDef[] = columns) {
+    return { key, title: from.find(c => c.key === key)?.title ?? key };
+  }
+
+  // Card write primitives - shared by the UI handlers and undo/redo so an inverse
+  // operation is applied and persisted exactly like the original one. Each one records
+  // what it did in the card's history once the write is accepted.
+
+  async function insertCard(col: ColumnKey, item: KanbanItem, kind: "created" | "restored" = "created") {
+    if (!(col in boardRef.current)) {
+      setError("That column no longer exists.");
+      return false;
+    }
+    setError(null);
+    // Show the card right away; the write goes out through the offline queue
+    setBoard(prev => ensureUniqueItems({ ...prev, [col]: insertByRank(prev[col], item) }));
+    if (item.rank && item.rank.length > MAX_RANK_LENGTH) scheduleRebalance(col);
+
+    const { error, queued } = await enqueueWrite({
+      table: "kanban_cards",
+      action: "insert",
+      rowId: item.id,
+      values: { ...itemToRow(item, col), board_id: boardId, position: 0 },
+    });
+    if (error) {
+      console.error("Error adding card:", error);
+      setError(`Failed to add task: ${error.message}`);
+      setBoard(prev => ({ ...prev, [col]: prev[col].filter(i => i.id !== item.id) }));
+      return false;
+    }
+    console.log(queued ? "Queued new card:" : "Successfully added card:", item.id);
+    void recordCardEvent({ card_id: item.id, board_id: boardId, kind, to_column: col });
+    return true;
+  }
+
+  async function removeCard(id: string) {
     try {
       setError(null);
       console.log("Deleting card with id:", id);
@@ -430,67 +937,313 @@ export default function KanbanBoard() {
         pendingUpdatesRef.current.delete(id);
       }
       
-      const { error } = await supabase
-        .from("kanban_cards")
-        .delete()
-        .eq("id", id);
+      const removed = findCard(id);
+      // Update local state immediately for better UX
+      setBoard(prev => {
+        const next = { ...prev };
+        for (const col of Object.keys(next) as ColumnKey[]) {
+          next[col] = next[col].filter(i => i.id !== id);
+        }
+        return ensureUniqueItems(next);
+      });
+
+      const { error, queued } = await enqueueWrite({ table: "kanban_cards", action: "delete", rowId: id });
 
       if (error) {
         console.error("Error deleting card:", error);
         setError(`Failed to delete task: ${error.message}`);
-        return;
+        if (removed) {
+          setBoard(prev => ensureUniqueItems({ ...prev, [removed.col]: insertByRank(prev[removed.col], removed.item) }));
+        }
+        return false;
       }
 
-      console.log("Successfully deleted card with id:", id);
-      // Update local state immediately for better UX
-      setBoard(prev => ensureUniqueItems({ ...prev, [col]: prev[col].filter(i => i.id !== id) }));
-      await persistColumnPositions(col);
+      console.log(queued ? "Queued delete for card with id:" : "Successfully deleted card with id:", id);
+      void recordCardEvent({ card_id: id, board_id: boardId, kind: "deleted", from_column: removed?.col ?? null });
+      return true;
     } catch (error) {
       console.error("Error deleting card:", error);
       setError("Failed to delete task. Please check your connection.");
+      return false;
     }
   }
 
-  async function handleEdit(col: ColumnKey, updated: KanbanItem) {
+  async function updateCard(updated: KanbanItem) {
     try {
       setError(null);
       console.log("Updating card with id:", updated.id, "data:", updated);
       
+      const current = findCard(updated.id);
+      if (!current) return false;
+      const { col, item: previous } = current;
+
       const links = (updated.links || []).map((l, i) => ({ label: l.label ?? `Link ${i + 1}`, href: l.href }));
       const updateData = {
         title: updated.title,
         description: updated.description ?? null,
         links: links.length ? links : null,
+        due_date: updated.dueDate ?? null,
+        due_time: updated.dueDate ? updated.dueTime ?? null : null,
+        label_ids: updated.labelIds ?? [],
+        priority: updated.priority ?? "none",
         updated_at: new Date().toISOString(),
       };
+      markLocalWrite(updated.id, updateData.updated_at);
       
       console.log("Update data:", updateData);
 
-      const { data, error } = await supabase
-        .from("kanban_cards")
-        .update(updateData)
-        .eq("id", updated.id)
-        .select()
-        .single();
+      // Update local state immediately for better UX
+      setBoard(prev => ensureUniqueItems({
+        ...prev,
+        [col]: prev[col].map(i => (i.id === updated.id ? { ...i, ...updated, updatedAt: updateData.updated_at } : i)),
+      }));
+
+      const { error, queued } = await enqueueWrite({
+        table: "kanban_cards",
+        action: "update",
+        rowId: updated.id,
+        values: updateData,
+      });
 
       if (error) {
         console.error("Error updating card:", error);
         setError(`Failed to update task: ${error.message}`);
-        return;
+        setBoard(prev => ({
+          ...prev,
+          [col]: prev[col].map(i => (i.id === updated.id ? previous : i)),
+        }));
+        return false;
       }
 
-      console.log("Successfully updated card:", data);
-      // Update local state immediately for better UX
-      setBoard(prev => ensureUniqueItems({
-        ...prev,
-        [col]: prev[col].map(i => (i.id === updated.id ? { ...i, ...updated } : i)),
-      }));
+      console.log(queued ? "Queued update for card:" : "Successfully updated card:", updated.id);
+      void recordCardEvent({
+        card_id: updated.id,
+        board_id: boardId,
+        kind: "edited",
+        changes: diffCardFields(itemToRow(previous, col), updateData),
+      });
+      return true;
     } catch (error) {
       console.error("Error updating card:", error);
       setError("Failed to update task. Please check your connection.");
+      return false;
+    }
+  }
+
+  // Put a card at a given column + rank (used to undo/redo drags), and in a lane when one is given
+  async function placeCard(id: string, col: ColumnKey, rank: string | undefined, laneId?: string | null) {
+    const current = findCard(id);
+    if (!current) return false;
+    if (!(col in boardRef.current)) {
+      setError("That column no longer exists.");
+      return false;
+    }
+    setError(null);
+    const snapshot = boardRef.current;
+    const laneChanged = laneId !== undefined && (current.item.laneId ?? null) !== laneId;
+    const placed = { ...current.item, rank, ...(laneChanged ? { laneId: laneId ?? undefined } : {}) };
+    setBoard(prev => ensureUniqueItems({
+      ...prev,
+      [current.col]: prev[current.col].filter(i => i.id !== id),
+      [col]: insertByRank(prev[col].filter(i => i.id !== id), placed),
+    }));
+
+    const updatedAt = new Date().toISOString();
+    markLocalWrite(id, updatedAt);
+    const { error } = await enqueueWrite({
+      table: "kanban_cards",
+      action: "update",
+      rowId: id,
+      values: { column_key: col, rank: rank ?? null, ...(laneChanged ? { lane_id: laneId } : {}), updated_at: updatedAt },
+    });
+    if (error) {
+      console.error("Error moving card:", error);
+      setError(`Failed to move task: ${error.message}`);
+      setBoard(snapshot);
+      return false;
+    }
+    if (current.col !== col || current.item.rank !== rank) {
+      void recordCardMove(id, boardId, columnInfo(current.col), columnInfo(col));
+    }
+    if (laneChanged) recordLaneChange(id, current.item.laneId ?? null, laneId);
+    if (current.col !== col) afterColumnChange(id, col);
+    return true;
+  }
+
+  // A repeating card that reaches Done (the last column) gets its next occurrence now rather than at the next scheduled run
+  function afterColumnChange(id: string, to: ColumnKey) {
+    if (to === columns[columns.length - 1]?.key && recurrences.byCard[id]) void recurrences.actions.runDue();
+  }
+
+  function showUndoToast(message: string) {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    setUndoToast(message);
+    toastTimerRef.current = setTimeout(() => setUndoToast(null), 6000);
+  }
+
+  function applyTemplateFields(fields: TemplateFields) {
+    setNewTitle(fields.title);
+    setNewDesc(fields.description);
+    setNewLinks(fields.links);
+    setNewPriority(fields.priority);
+    // Labels deleted since the template was saved are dropped
+    setNewLabelIds(fields.labelIds.filter(id => labels.some(l => l.id === id)));
+    const column = columns.some(c => c.key === fields.columnKey) ? fields.columnKey! : columns[0]?.key;
+    if (column) setNewColumn(column);
+  }
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const links = parseLinks(newLinks);
+    const column = newColumn;
+    const newItem: KanbanItem = {
+      id: crypto.randomUUID(),
+      title: newTitle,
+      description: newDesc || undefined,
+      links: links.length ? links : undefined,
+      dueDate: newDueDate || undefined,
+      dueTime: newDueDate && newDueTime ? newDueTime : undefined,
+      priority: newPriority,
+      labelIds: newLabelIds.length ? newLabelIds : undefined,
+      laneId: newLaneId || undefined,
+      // New cards go on top of the column
+      rank: rankBetween(null, board[column][0]?.rank),
+      createdAt: new Date().toISOString(),
+    };
+
+    setAddOpen(false);
+    setNewTitle(""); setNewDesc(""); setNewLinks(""); setNewDueDate(""); setNewDueTime(""); setNewLabelIds([]); setNewPriority("none"); setNewAssigneeIds([]); setNewLaneId(""); setNewColumn(columns[0]?.key ?? column);
+
+    // Assignee rows queue up behind the card insert, so they never reach the server first
+    const assigneeIds = newAssigneeIds;
+    const insertWithAssignees = async (kind: "created" | "restored") =>
+      (await insertCard(column, newItem, kind)) && (assigneeIds.length === 0 || (await assignees.actions.set(newItem.id, assigneeIds)));
+
+    void insertWithAssignees("created").then(ok => {
+      if (!ok) return;
+      history.push({
+        label: `Add "${newItem.title}"`,
+        undo: () => removeCard(newItem.id),
+        redo: () => insertWithAssignees("restored"),
+      });
+    });
+  }
+
+  async function handleDelete(col: ColumnKey, id: string) {
+    const removed = board[col].find(i => i.id === id);
+    // The database drops the card's checklist and assignees with it; undo puts them back
+    const removedChecklist = checklists.byCard[id] ?? [];
+    const removedAssignees = assignees.byCard[id] ?? [];
+    if (!(await removeCard(id)) || !removed) return;
+    history.push({
+      label: `Delete "${removed.title}"`,
+      undo: async () =>
+        (await insertCard(col, removed, "restored")) &&
+        (await checklists.actions.restore(removedChecklist)) &&
+        (await assignees.actions.set(id, removedAssignees)),
+      redo: () => removeCard(id),
+    });
+    showUndoToast(`Deleted "${removed.title}"`);
+  }
+
+  // Assignees saved from the card detail view are part of the same edit, so undo restores them too
+  async function handleEdit(col: ColumnKey, updated: KanbanItem, assigneeIds?: string[]) {
+    const previous = board[col].find(i => i.id === updated.id);
+    const previousAssignees = assignees.byCard[updated.id] ?? [];
+    const apply = async (item: KanbanItem, ids?: string[]) =>
+      (await updateCard(item)) && (!ids || (await assignees.actions.set(item.id, ids)));
+    if (!(await apply(updated, assigneeIds)) || !previous) return;
+    history.push({
+      label: `Edit "${previous.title}"`,
+      undo: () => apply(previous, assigneeIds && previousAssignees),
+      redo: () => apply(updated, assigneeIds),
+    });
+  }
+
+  function handleSortChange(col: ColumnKey, sort: ColumnSort) {
+    setColumnSorts(prev => {
+      const next = { ...prev, [col]: sort };
+      saveColumnSorts(boardId, next);
+      return next;
+    });
+  }
+
+  // What a column shows: the filters, then the column's sort. Board state keeps every card
+  // (hidden ones included) in manual order, so drags and ranks always work on the full list.
+  const myMemberId = assignees.members.find(m => m.user_id === userId)?.id;
+
+  function visibleItems(col: ColumnKey) {
+    const items = (board[col] ?? []).filter(item =>
+      matchesDueFilter(dueFilter, item.dueDate, item.dueTime) &&
+      matchesLabelFilter(labelFilter, item.labelIds) &&
+      (!mineOnly || (!!myMemberId && (assignees.byCard[item.id] ?? []).includes(myMemberId))) &&
+      matchesQuery(searchQuery, item, columnInfo(col))
+    );
+    return sortColumnItems(items, columnSorts[col]);
+  }
+
+  const filtered = dueFilter !== "all" || labelFilter.length > 0 || mineOnly || !isEmptyQuery(searchQuery);
+
+  const labelCounts: Record<string, number> = {};
+  for (const items of Object.values(board)) {
+    for (const item of items) {
+      for (const id of item.labelIds ?? []) labelCounts[id] = (labelCounts[id] ?? 0) + 1;
     }
   }
 
+  const laneCounts: Record<string, number> = {};
+  for (const item of Object.values(board).flat()) {
+    if (item.laneId) laneCounts[item.laneId] = (laneCounts[item.laneId] ?? 0) + 1;
+  }
+
+  function updateLaneView(next: LaneView) {
+    setLaneView(next);
+    saveLaneView(boardId, next);
+  }
+
+  function toggleLaneCollapsed(key: string) {
+    const { collapsed } = laneView;
+    updateLaneView({ ...laneView, collapsed: collapsed.includes(key) ? collapsed.filter(k => k !== key) : [...collapsed, key] });
+  }
+
+  const columnGrid = { gridTemplateColumns: `repeat(${columns.length}, minmax(260px, 1fr))` };
+
+  // A column, or with lanes shown one lane's cell of it (no header; the lane rows share one)
+  function renderColumn(col: ColumnDef, items: KanbanItem[], lane?: string | null) {
+    return (
+      <Column
+        key={col.key}
+        column={col}
+        droppableId={lane === undefined ? undefined : laneCellId(lane, col.key)}
+        showHeader={lane === undefined}
+        items={items}
+        totalCount={board[col.key]?.length ?? 0}
+        dropBlocked={!!activeId && findContainer(activeId) !== col.key && wipBlocks(col.key)}
+        filtered={filtered}
+        highlight={searchQuery.terms}
+        sort={columnSorts[col.key] ?? "manual"}
+        onSortChange={(sort) => handleSortChange(col.key, sort)}
+        readOnly={!canEdit}
+        activity={activity}
+        checklists={checklists.byCard}
+        checklistActions={checklists.actions}
+        labels={labels}
+        members={assignees.members}
+        assignees={assignees.byCard}
+        comments={comments.byCard}
+        commentActions={comments.actions}
+        recurrences={recurrences.byCard}
+        recurrenceActions={recurrences.actions}
+        boardColumns={columns}
+        userId={userId}
+        focusedCardId={focusedCardId}
+        onEditingChange={handleEditingChange}
+        onDelete={handleDelete}
+        onEdit={handleEdit}
+      />
+    );
+  }
+
   const activeItem = activeId ? findActiveItem(activeId) : null;
 
   function findActiveItem(id: string): KanbanItem | undefined {
@@ -501,24 +1254,113 @@ export default function KanbanBoard() {
     return undefined;
   }
 
-  async function persistColumnPositions(col: ColumnKey) {
-    try {
-    const items = board[col];
-      if (items.length === 0) return;
-      
-    // Re-read latest to avoid stale closure
-    const current = items.map((it, idx) => ({ id: it.id, position: idx }));
-      
-      // Update all positions in parallel for better performance
-      const updatePromises = current.map(row => 
-        supabase.from("kanban_cards").update({ position: row.position }).eq("id", row.id)
-      );
-      
-      await Promise.all(updatePromises);
-      console.log(`Updated positions for ${current.length} items in column ${col}`);
-    } catch (error) {
-      console.error(`Error updating positions for column ${col}:`, error);
+  // Give every card in the column a fresh, evenly spaced rank (keeps the current order)
+  async function rebalanceColumn(col: ColumnKey, items: KanbanItem[]) {
+    if (items.length === 0) return null;
+    const ranks = spreadRanks(items.length);
+    const ranked = items.map((item, i) => ({ ...item, rank: ranks[i] }));
+    const rankById = new Map(ranked.map(item => [item.id, item.rank]));
+    setBoard(prev => ({
+      ...prev,
+      [col]: prev[col].map(item => (rankById.has(item.id) ? { ...item, rank: rankById.get(item.id) } : item)),
+    }));
+    const error = await writeRanks(col, ranked);
+    if (error) {
+      console.error(`Error rebalancing ranks for column ${col}:`, error);
+    } else {
+      console.log(`Rebalanced ranks for ${ranked.length} items in column ${col}`);
     }
+    return error;
+  }
+
+  // Ranks grow longer each time a card is dropped between two close neighbours;
+  // respread the column in the background once they get too long
+  function scheduleRebalance(col: ColumnKey) {
+    const existing = rebalanceTimersRef.current.get(col);
+    if (existing) clearTimeout(existing);
+    rebalanceTimersRef.current.set(col, setTimeout(() => {
+      rebalanceTimersRef.current.delete(col);
+      if (dragOriginRef.current) {
+        // Don't shuffle ranks under an in-progress drag
+        scheduleRebalance(col);
+        return;
+      }
+      void rebalanceColumn(col, boardRef.current[col]);
+    }, 2000));
+  }
+
+  async function persistMove(id: string, from: ColumnKey, to: ColumnKey, nextBoard: BoardState, snapshot: BoardState) {
+    setError(null);
+    const items = nextBoard[to];
+    const index = items.findIndex(item => item.id === id);
+    const before = items[index - 1];
+    const after = items[index + 1];
+
+    // Neighbours without usable ranks (missing or out of order) mean the whole target column gets respread instead
+    const canRank = (!before || !!before.rank) && (!after || !!after.rank) &&
+      (!before || !after || compareRanks(before.rank, after.rank) < 0);
+    const rank = canRank ? rankBetween(before?.rank, after?.rank) : null;
+
+    const previousRank = snapshot[from].find(item => item.id === id)?.rank;
+    const finalRank = rank ?? spreadRanks(items.length)[index];
+    const previousLane = snapshot[from].find(item => item.id === id)?.laneId ?? null;
+    const finalLane = items[index]?.laneId ?? null;
+    const laneChanged = previousLane !== finalLane;
+
+    let failure: { message: string } | null;
+    if (rank) {
+      setBoard(prev => ({
+        ...prev,
+        [to]: prev[to].map(item => (item.id === id ? { ...item, rank } : item)),
+      }));
+      const updatedAt = new Date().toISOString();
+      markLocalWrite(id, updatedAt);
+      const { error } = await enqueueWrite({
+        table: "kanban_cards",
+        action: "update",
+        rowId: id,
+        values: { column_key: to, rank, ...(laneChanged ? { lane_id: finalLane } : {}), updated_at: updatedAt },
+      });
+      failure = error;
+    } else {
+      failure = await rebalanceColumn(to, items);
+      if (!failure && laneChanged) {
+        // The respread only writes placement; the lane goes on its own
+        const updatedAt = new Date().toISOString();
+        markLocalWrite(id, updatedAt);
+        ({ error: failure } = await enqueueWrite({
+          table: "kanban_cards",
+          action: "update",
+          rowId: id,
+          values: { lane_id: finalLane, updated_at: updatedAt },
+        }));
+      }
+    }
+
+    if (!failure) {
+      console.log(`Card ${id} moved ${from === to ? "within" : `from ${from} to`} ${to}`);
+      if (rank && rank.length > MAX_RANK_LENGTH) scheduleRebalance(to);
+      if (from !== to || previousRank !== finalRank) {
+        void recordCardMove(id, boardId, columnInfo(from), columnInfo(to));
+      }
+      if (from !== to) afterColumnChange(id, to);
+      if (laneChanged) recordLaneChange(id, previousLane, finalLane);
+      const title = items[index]?.title ?? "task";
+      history.push({
+        label: from === to ? (laneChanged ? `Move "${title}" to another lane` : `Reorder "${title}"`) : `Move "${title}"`,
+        undo: () => placeCard(id, from, previousRank, laneChanged ? previousLane : undefined),
+        redo: () => placeCard(id, to, finalRank, laneChanged ? finalLane : undefined),
+      });
+      if (from !== to) {
+        showUndoToast(`Moved "${title}" to ${columns.find(c => c.key === to)?.title ?? to}${wipWarning(to, items.length)}`);
+      }
+      return;
+    }
+
+    console.error("Error moving card:", failure);
+    setError(`Failed to move task: ${failure.message}`);
+    // Roll back the optimistic move
+    setBoard(snapshot);
   }
 
   async function saveAllPositions() {
@@ -527,39 +1369,21 @@ export default function KanbanBoard() {
       setError(null);
       console.log("Saving all card positions to database...");
       
-      // Get all cards with their current positions and columns
-      const allUpdates: Array<{ id: string; column_key: ColumnKey; position: number }> = [];
+      const columns = (Object.entries(board) as [ColumnKey, KanbanItem[]][]).filter(([, items]) => items.length > 0);
       
-      for (const [colKey, items] of Object.entries(board) as [ColumnKey, KanbanItem[]][]) {
-        items.forEach((item, index) => {
-          allUpdates.push({
-            id: item.id,
-            column_key: colKey,
-            position: index
-          });
-        });
-      }
-      
-      if (allUpdates.length === 0) {
+      if (columns.length === 0) {
         console.log("No cards to save");
         setIsSaving(false);
         return;
       }
       
-      // Update all cards in parallel
-      const updatePromises = allUpdates.map(update => 
-        supabase
-          .from("kanban_cards")
-          .update({ 
-            column_key: update.column_key,
-            position: update.position,
-            updated_at: new Date().toISOString()
-          })
-          .eq("id", update.id)
-      );
-      
-      await Promise.all(updatePromises);
-      console.log(`Successfully saved positions for ${allUpdates.length} cards`);
+      // Respread and rewrite every column in parallel
+      const errors = await Promise.all(columns.map(([colKey, items]) => rebalanceColumn(colKey, items)));
+      const failed = errors.find(Boolean);
+      if (failed) {
+        throw failed;
+      }
+      console.log(`Successfully saved positions for ${columns.length} columns`);
       
       // Show success message
       setSaveSuccess(true);
@@ -575,6 +1399,250 @@ export default function KanbanBoard() {
 
 
 
+  // Move a card to the top of another column, as the palette's "Move to" does
+  async function moveCardTo(id: string, to: ColumnKey) {
+    const current = findCard(id);
+    if (!current || current.col === to) return;
+    if (wipBlocks(to)) {
+      setError(`${columnInfo(to).title} is at its WIP limit. Finish or move a card out first.`);
+      return;
+    }
+    const from = current.col;
+    const previousRank = current.item.rank;
+    const rank = rankBetween(null, boardRef.current[to]?.[0]?.rank);
+    if (!(await placeCard(id, to, rank))) return;
+    history.push({
+      label: `Move "${current.item.title}"`,
+      undo: () => placeCard(id, from, previousRank),
+      redo: () => placeCard(id, to, rank),
+    });
+    showUndoToast(`Moved "${current.item.title}" to ${columnInfo(to).title}${wipWarning(to, boardRef.current[to]?.length ?? 0)}`);
+  }
+
+  // Give a card another lane, keeping its column and place
+  async function moveCardToLane(id: string, laneId: string | null) {
+    const current = findCard(id);
+    if (!current) return;
+    const previousLane = current.item.laneId ?? null;
+    if (!(await placeCard(id, current.col, current.item.rank, laneId))) return;
+    history.push({
+      label: `Move "${current.item.title}" to another lane`,
+      undo: () => placeCard(id, current.col, current.item.rank, previousLane),
+      redo: () => placeCard(id, current.col, current.item.rank, laneId),
+    });
+  }
+
+  // Focus a card's drag handle (the element dnd-kit makes focusable) and bring it into view
+  function focusCard(id: string) {
+    const handle = document.querySelector<HTMLElement>(`[data-card-id="${id}"] [aria-roledescription]`);
+    handle?.scrollIntoView({ block: "nearest", inline: "nearest" });
+    handle?.focus();
+  }
+
+  // Board commands for the Ctrl+K palette; each card adds Open and Delete for itself while focused
+  useRegisterCommands(() => {
+    const commands: Command[] = [];
+    if (canEdit) {
+      for (const col of columns) {
+        commands.push({
+          id: `add-card:${col.key}`,
+          title: `Add card to ${col.title}`,
+          group: "Cards",
+          keywords: ["new task", "create"],
+          run: () => { setNewColumn(col.key); setAddOpen(true); },
+        });
+      }
+      for (const template of templates) {
+        commands.push({
+          id: `add-from-template:${template.id}`,
+          title: `New card from "${template.name}"`,
+          group: "Cards",
+          keywords: ["template", "add card"],
+          run: () => { applyTemplateFields(applyTemplate(template)); setAddOpen(true); },
+        });
+      }
+      const focused = focusedCardId ? findCard(focusedCardId) : undefined;
+      if (focused) {
+        for (const col of columns.filter(c => c.key !== focused.col)) {
+          commands.push({
+            id: `move-card:${col.key}`,
+            title: `Move "${focused.item.title}" to ${col.title}`,
+            group: "Focused card",
+            run: () => moveCardTo(focused.item.id, col.key),
+          });
+        }
+        const lane = laneOf(focused.item.laneId, lanes);
+        for (const target of lanes.length ? [...lanes, { id: null, name: "No lane" }] : []) {
+          if (target.id === lane) continue;
+          commands.push({
+            id: `move-card-lane:${target.id ?? NO_LANE}`,
+            title: `Move "${focused.item.title}" to lane ${target.name}`,
+            group: "Focused card",
+            run: () => moveCardToLane(focused.item.id, target.id),
+          });
+        }
+      }
+    }
+    for (const col of columns) {
+      for (const item of visibleItems(col.key)) {
+        commands.push({
+          id: `go-to:${item.id}`,
+          title: `Go to "${item.title}"`,
+          group: col.title,
+          keywords: [item.title, "jump"],
+          run: () => focusCard(item.id),
+        });
+      }
+    }
+    if (canEdit) {
+      commands.push(
+        { id: "undo", title: history.nextUndo ? `Undo: ${history.nextUndo}` : "Undo", group: "Board", shortcut: "Ctrl+Z", run: history.undo },
+        { id: "redo", title: "Redo", group: "Board", shortcut: "Ctrl+Shift+Z", run: history.redo },
+        { id: "save", title: "Save all card positions", group: "Board", keywords: ["sync"], run: saveAllPositions },
+      );
+    }
+    if (lanes.length > 0) {
+      commands.push({
+        id: "toggle-lanes",
+        title: laneView.enabled ? "Stop grouping by lane" : "Group by lane",
+        group: "Board",
+        keywords: ["swimlanes"],
+        run: () => updateLaneView({ ...laneView, enabled: !laneView.enabled }),
+      });
+    }
+    commands.push({ id: "reload", title: "Reload board", group: "Board", keywords: ["refresh", "fetch"], run: () => reloadRef.current() });
+    if (filtered) {
+      commands.push({
+        id: "clear-filters",
+        title: "Clear search and filters",
+        group: "Board",
+        run: () => { setSearch(""); setDueFilter("all"); setLabelFilter([]); setMineOnly(false); },
+      });
+    }
+    return commands;
+  });
+
+  // Column management - optimistic like card writes, rolled back if the server rejects them
+
+  async function writeColumn(action: "insert" | "update" | "delete", key: ColumnKey, values?: Record<string, unknown>) {
+    const { error } = await enqueueWrite({ table: "kanban_columns", action, rowId: key, idColumn: "key", values });
+    return error;
+  }
+
+  async function handleAddColumn(title: string, color: ColumnColor) {
+    setError(null);
+    const previousColumns = columns;
+    const column: ColumnDef = {
+      key: newColumnKey(title, columns.map(c => c.key)),
+      title,
+      color,
+      position: columns.reduce((max, c) => Math.max(max, c.position), -1) + 1,
+      wip_limit: null,
+      wip_mode: "warn",
+    };
+    setColumns([...columns, column]);
+    setBoard(prev => ({ ...prev, [column.key]: [] }));
+
+    const error = await writeColumn("insert", column.key, { ...column, board_id: boardId });
+    if (error) {
+      console.error("Error adding column:", error);
+      setError(`Failed to add column: ${error.message}`);
+      setColumns(previousColumns);
+      setBoard(prev => {
+        const next = { ...prev };
+        delete next[column.key];
+        return next;
+      });
+    }
+  }
+
+  async function handleUpdateColumn(key: ColumnKey, patch: Partial<Pick<ColumnDef, "title" | "color" | "wip_limit" | "wip_mode">>) {
+    setError(null);
+    const previousColumns = columns;
+    setColumns(columns.map(c => (c.key === key ? { ...c, ...patch } : c)));
+
+    const error = await writeColumn("update", key, patch);
+    if (error) {
+      console.error("Error updating column:", error);
+      setError(`Failed to update column: ${error.message}`);
+      setColumns(previousColumns);
+    }
+  }
+
+  async function handleMoveColumn(key: ColumnKey, direction: -1 | 1) {
+    const index = columns.findIndex(c => c.key === key);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= columns.length) return;
+
+    setError(null);
+    const previousColumns = columns;
+    const reordered = arrayMove(columns, index, target).map((c, position) => ({ ...c, position }));
+    setColumns(reordered);
+
+    const changed = reordered.filter(c => previousColumns.find(p => p.key === c.key)?.position !== c.position);
+    const errors = await Promise.all(changed.map(c => writeColumn("update", c.key, { position: c.position })));
+    const failed = errors.find(Boolean);
+    if (failed) {
+      console.error("Error reordering columns:", failed);
+      setError(`Failed to reorder columns: ${failed.message}`);
+      setColumns(previousColumns);
+    }
+  }
+
+  async function handleDeleteColumn(key: ColumnKey, moveTo: ColumnKey | null) {
+    if (columns.length <= 1 || moveTo === key) return;
+    setError(null);
+    const previousColumns = columns;
+    const previousBoard = board;
+    const cards = board[key] ?? [];
+
+    // Moved cards go to the bottom of the target column, keeping their order
+    let lastRank = moveTo ? board[moveTo]?.[board[moveTo].length - 1]?.rank : undefined;
+    const moved = moveTo
+      ? cards.map(item => {
+          lastRank = rankBetween(lastRank, null);
+          return { ...item, rank: lastRank };
+        })
+      : [];
+
+    setColumns(columns.filter(c => c.key !== key));
+    setBoard(prev => {
+      const next = { ...prev };
+      delete next[key];
+      if (moveTo) next[moveTo] = [...(next[moveTo] ?? []), ...moved];
+      return ensureUniqueItems(next);
+    });
+    if (newColumn === key) setNewColumn(columns.find(c => c.key !== key)!.key);
+
+    const cardWrites = moveTo
+      ? moved.map(item => {
+          const updatedAt = new Date().toISOString();
+          markLocalWrite(item.id, updatedAt);
+          return enqueueWrite({
+            table: "kanban_cards",
+            action: "update",
+            rowId: item.id,
+            values: { column_key: moveTo, rank: item.rank, updated_at: updatedAt },
+          });
+        })
+      : cards.map(item => enqueueWrite({ table: "kanban_cards", action: "delete", rowId: item.id }));
+    const cardErrors = (await Promise.all(cardWrites)).map(r => r.error);
+    // Only drop the column once its cards are out of it
+    const failed = cardErrors.find(Boolean) ?? (await writeColumn("delete", key));
+    if (failed) {
+      console.error("Error deleting column:", failed);
+      setError(`Failed to delete column: ${failed.message}`);
+      setColumns(previousColumns);
+      setBoard(previousBoard);
+      return;
+    }
+    for (const item of cards) {
+      void (moveTo
+        ? recordCardMove(item.id, boardId, columnInfo(key, previousColumns), columnInfo(moveTo, previousColumns))
+        : recordCardEvent({ card_id: item.id, board_id: boardId, kind: "deleted", from_column: key }));
+    }
+  }
+
   if (loading) {
     return (
       <div className="w-full max-w-[1400px] mx-auto px-3">
@@ -593,6 +1661,11 @@ export default function KanbanBoard() {
       <div className="flex items-center justify-between mb-6">
         <div>
           <h2 className="text-3xl font-bold text-white drop-shadow mb-2">Kanban Board</h2>
+          <div className="flex items-center gap-4 mb-2">
+            <BoardSwitcher boardId={boardId} />
+            <UserMenu className="text-white/80" />
+            <PresenceAvatars viewers={presence.map(p => ({ userId: p.user_id, email: p.email }))} />
+          </div>
           <p className="text-white/80 text-sm">~ &ldquo;The secret of getting ahead is getting started.&rdquo;</p>
           <div className="flex items-center gap-2 mt-2">
             <span className={`text-xs ${
@@ -604,6 +1677,18 @@ export default function KanbanBoard() {
                  connectionStatus === 'connecting' ? 'Connecting...' : 
                  'Offline'}
             </span>
+            {pendingCount > 0 && (
+              <span className="text-xs text-yellow-300">
+                {pendingCount} {pendingCount === 1 ? 'change' : 'changes'} pending
+              </span>
+            )}
+            {failedCount > 0 && (
+              <span className="text-xs text-red-300">
+                {failedCount} failed
+                <button onClick={() => void retryFailed()} className="ml-2 underline">Retry</button>
+                <button onClick={discardFailed} className="ml-2 underline">Discard</button>
+              </span>
+            )}
           </div>
           {error && (
             <div className="mt-2 p-2 bg-red-900/20 border border-red-500/30 rounded-md">
@@ -623,7 +1708,94 @@ export default function KanbanBoard() {
           )}
         </div>
         <div className="flex gap-3">
-         
+          <SearchBox value={search} onChange={setSearch} className="w-64" />
+          <select
+            aria-label="Filter by due date"
+            className="h-10 rounded-md border border-neutral-200 bg-white px-3 text-sm text-neutral-800 shadow-sm"
+            value={dueFilter}
+            onChange={(e) => setDueFilter(e.target.value as DueFilter)}
+          >
+            {(Object.keys(DUE_FILTERS) as DueFilter[]).map(f => (
+              <option key={f} value={f}>{DUE_FILTERS[f]}</option>
+            ))}
+          </select>
+          <LabelFilter labels={labels} selected={labelFilter} onChange={setLabelFilter} />
+          <Button
+            variant={mineOnly ? "default" : "outline"}
+            className="h-10 px-4"
+            aria-pressed={mineOnly}
+            onClick={() => setMineOnly(on => !on)}
+          >
+            <UserCheck />
+            My cards
+          </Button>
+          {lanes.length > 0 && (
+            <Button
+              variant={laneView.enabled ? "default" : "outline"}
+              size="icon"
+              className="h-10 w-10"
+              aria-label="Group by lane"
+              aria-pressed={laneView.enabled}
+              title="Group by lane"
+              onClick={() => updateLaneView({ ...laneView, enabled: !laneView.enabled })}
+            >
+              <Rows3 />
+            </Button>
+          )}
+          {openPalette && (
+            <Button
+              onClick={openPalette}
+              variant="outline"
+              size="icon"
+              className="h-10 w-10"
+              aria-label="Commands"
+              title="Commands (Ctrl+K)"
+            >
+              <CommandIcon />
+            </Button>
+          )}
+          <MembersDialog boardId={boardId} canManage={canManage} />
+          {canManage && (
+            <ColumnsDialog
+              columns={columns}
+              cardCounts={Object.fromEntries(columns.map(c => [c.key, board[c.key]?.length ?? 0]))}
+              onAdd={handleAddColumn}
+              onUpdate={handleUpdateColumn}
+              onMove={handleMoveColumn}
+              onDelete={handleDeleteColumn}
+            />
+          )}
+          {canEdit && (
+          <>
+          <LabelsDialog
+            labels={labels}
+            cardCounts={labelCounts}
+            actions={labelActions}
+          />
+          <LanesDialog lanes={lanes} cardCounts={laneCounts} actions={laneActions} />
+          <TemplatesDialog templates={templates} columns={columns} labels={labels} actions={templateActions} />
+          <Button
+            onClick={() => void history.undo()}
+            disabled={!history.canUndo}
+            variant="outline"
+            size="icon"
+            className="h-10 w-10"
+            aria-label="Undo"
+            title={history.nextUndo ? `Undo: ${history.nextUndo} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          >
+            <Undo2 />
+          </Button>
+          <Button
+            onClick={() => void history.redo()}
+            disabled={!history.canRedo}
+            variant="outline"
+            size="icon"
+            className="h-10 w-10"
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 />
+          </Button>
           <Dialog open={addOpen} onOpenChange={setAddOpen}>
             <DialogTrigger asChild>
               <Button variant="secondary" className="h-10 px-6">
@@ -638,6 +1810,7 @@ export default function KanbanBoard() {
               <DialogDescription>Fill details and choose a column.</DialogDescription>
             </DialogHeader>
             <form onSubmit={handleAdd} className="space-y-3">
+              <TemplatePicker id="new-template" templates={templates} onApply={applyTemplateFields} />
               <div>
                 <Label htmlFor="title">Title</Label>
                 <Input id="title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} required />
@@ -650,13 +1823,42 @@ export default function KanbanBoard() {
                 <Label htmlFor="links">Links (comma separated)</Label>
                 <Input id="links" placeholder="https://... , https://..." value={newLinks} onChange={(e) => setNewLinks(e.target.value)} />
               </div>
+              <DueDateFields
+                id="new-due"
+                date={newDueDate}
+                time={newDueTime}
+                onChange={(date, time) => { setNewDueDate(date); setNewDueTime(time); }}
+              />
+              <PrioritySelect id="new-priority" value={newPriority} onChange={setNewPriority} />
+              <div>
+                <Label>Labels</Label>
+                <div className="mt-1">
+                  <LabelPicker labels={labels} selected={newLabelIds} onChange={setNewLabelIds} />
+                </div>
+              </div>
+              <div>
+                <Label>Assignees</Label>
+                <div className="mt-1">
+                  <AssigneePicker members={assignees.members} selected={newAssigneeIds} onChange={setNewAssigneeIds} />
+                </div>
+              </div>
+              {lanes.length > 0 && (
+                <div>
+                  <Label htmlFor="lane">Lane</Label>
+                  <select id="lane" className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm" value={newLaneId} onChange={(e) => setNewLaneId(e.target.value)}>
+                    <option value="">No lane</option>
+                    {lanes.map(lane => (
+                      <option key={lane.id} value={lane.id}>{lane.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <Label htmlFor="col">Column</Label>
-                <select id="col" className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm" value={newColumn} onChange={(e) => setNewColumn(e.target.value as ColumnKey)}>
-                  <option value="todo">To-do</option>
-                  <option value="doing">In-progress</option>
-                  <option value="done">Done</option>
-                  <option value="temp">Temp</option>
+                <select id="col" className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm" value={newColumn} onChange={(e) => setNewColumn(e.target.value)}>
+                  {columns.map(col => (
+                    <option key={col.key} value={col.key}>{col.title}</option>
+                  ))}
                 </select>
               </div>
               <DialogFooter>
@@ -671,6 +1873,7 @@ export default function KanbanBoard() {
         <Button 
             onClick={saveAllPositions}
             disabled={isSaving}
+            title="Moves are saved automatically - use this to re-sync every card position"
             variant="outline" 
             className="h-10 px-6"
           >
@@ -685,26 +1888,80 @@ export default function KanbanBoard() {
               </>
             )}
           </Button>
+          </>
+          )}
         </div>
       </div>
       
       <DndContext
-        sensors={sensors}
+        sensors={canEdit ? sensors : noSensors}
         collisionDetection={collisionDetectionStrategy}
+        accessibility={{ announcements, screenReaderInstructions }}
         onDragStart={handleDragStart}
         onDragOver={handleDragOver}
         onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
       >
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-          {(Object.keys(board) as ColumnKey[]).map((key) => (
-            <Column
-              key={key}
-              colKey={key}
-              items={board[key]}
-              onDelete={handleDelete}
-              onEdit={handleEdit}
-            />
-          ))}
+        <div
+          className={lanesShown ? "space-y-4 overflow-x-auto pb-2" : "grid gap-6 overflow-x-auto pb-2"}
+          style={lanesShown ? undefined : columnGrid}
+          onFocusCapture={(e) => {
+            const id = (e.target as HTMLElement).closest<HTMLElement>("[data-card-id]")?.dataset.cardId;
+            if (id) setFocusedCardId(id);
+          }}
+        >
+          {lanesShown ? (
+            <>
+              {/* One header row for the columns, then a row of cells per lane */}
+              <div className="grid gap-6" style={columnGrid}>
+                {columns.map(col => (
+                  <div key={col.key} className={`rounded-2xl px-4 pt-3 ${columnColor(col.color).bg} ring-1 ${columnColor(col.color).ring} shadow-sm`}>
+                    <ColumnHeader
+                      column={col}
+                      shownCount={visibleItems(col.key).length}
+                      totalCount={board[col.key]?.length ?? 0}
+                      filtered={filtered}
+                      sort={columnSorts[col.key] ?? "manual"}
+                      onSortChange={(sort) => handleSortChange(col.key, sort)}
+                    />
+                  </div>
+                ))}
+              </div>
+              {[...lanes, { id: null, name: "No lane" }].map(lane => {
+                const key = lane.id ?? NO_LANE;
+                const collapsed = laneView.collapsed.includes(key);
+                const cells = columns.map(col => visibleItems(col.key).filter(item => laneOf(item.laneId, lanes) === lane.id));
+                const shown = cells.reduce((sum, items) => sum + items.length, 0);
+                const total = Object.values(board).flat().filter(item => laneOf(item.laneId, lanes) === lane.id).length;
+                return (
+                  <section key={key} aria-label={`Lane ${lane.name}`}>
+                    <button
+                      type="button"
+                      aria-expanded={!collapsed}
+                      onClick={() => toggleLaneCollapsed(key)}
+                      className="mb-2 flex items-center gap-2 rounded-md px-2 py-1 text-left text-white outline-none hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-blue-400"
+                    >
+                      {collapsed ? <ChevronRight className="size-4" /> : <ChevronDown className="size-4" />}
+                      <span className="font-semibold">{lane.name}</span>
+                      <span
+                        className="rounded-full bg-white/20 px-2 py-0.5 text-xs"
+                        title={filtered ? `${shown} of ${total} cards match the current filters` : undefined}
+                      >
+                        {filtered ? `${shown} of ${total}` : total}
+                      </span>
+                    </button>
+                    {!collapsed && (
+                      <div className="grid gap-6" style={columnGrid}>
+                        {columns.map((col, i) => renderColumn(col, cells[i], lane.id))}
+                      </div>
+                    )}
+                  </section>
+                );
+              })}
+            </>
+          ) : (
+            columns.map(col => renderColumn(col, visibleItems(col.key)))
+          )}
         </div>
         
         <DragOverlay>
@@ -712,6 +1969,12 @@ export default function KanbanBoard() {
             <div className="transform rotate-2 scale-110 shadow-2xl opacity-90">
               <KanbanCard
                 item={activeItem}
+                checklist={checklists.byCard[activeItem.id]}
+                labels={labels}
+                members={assignees.members}
+                assigneeIds={assignees.byCard[activeItem.id]}
+                comments={comments.byCard[activeItem.id]}
+                recurrence={recurrences.byCard[activeItem.id]}
                 dragging={true}
                 onDelete={async () => {}}
                 onEdit={async () => {}}
@@ -721,36 +1984,69 @@ export default function KanbanBoard() {
           ) : null}
         </DragOverlay>
       </DndContext>
+
+      {undoToast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 rounded-lg bg-neutral-900/90 px-4 py-2 text-sm text-white shadow-xl">
+          <span>{undoToast}</span>
+          <button
+            onClick={() => { setUndoToast(null); void history.undo(); }}
+            className="font-semibold underline"
+          >
+            Undo
+          </button>
+        </div>
+      )}
     </div>
   );
 }
 
-function Column({ colKey, items, onDelete, onEdit }: { colKey: ColumnKey; items: KanbanItem[]; onDelete: (c: ColumnKey, id: string) => Promise<void>; onEdit: (c: ColumnKey, item: KanbanItem) => Promise<void>; }) {
-  const meta = columnMeta[colKey];
-  const { setNodeRef, isOver } = useDroppable({ id: colKey });
+function Column({ column, droppableId, showHeader = true, items, totalCount, dropBlocked, filtered, highlight, sort, onSortChange, readOnly, activity, checklists, checklistActions, labels, members, assignees, comments, commentActions, recurrences, recurrenceActions, boardColumns, userId, focusedCardId, onEditingChange, onDelete, onEdit }: { column: ColumnDef; droppableId?: string; showHeader?: boolean; items: KanbanItem[]; totalCount: number; dropBlocked: boolean; filtered: boolean; highlight: string[]; sort: ColumnSort; onSortChange: (sort: ColumnSort) => void; readOnly: boolean; activity: Record<string, CardActivity>; checklists: Record<string, ChecklistItem[]>; checklistActions: ChecklistActions; labels: LabelDef[]; members: BoardMember[]; assignees: Record<string, string[]>; comments: Record<string, CardComment[]>; commentActions: CommentActions; recurrences: Record<string, Recurrence>; recurrenceActions: RecurrenceActions; boardColumns: ColumnDef[]; userId: string | null; focusedCardId: string | null; onEditingChange: (id: string, open: boolean) => void; onDelete: (c: ColumnKey, id: string) => Promise<void>; onEdit: (c: ColumnKey, item: KanbanItem, assigneeIds?: string[]) => Promise<void>; }) {
+  const colKey = column.key;
+  const meta = columnColor(column.color);
+  // A lane cell is one of several droppables for the column, so it needs its own id
+  const { setNodeRef, isOver } = useDroppable({ id: droppableId ?? colKey });
   
   return (
     <div className={`rounded-2xl p-4 ${meta.bg} ring-1 ${meta.ring} shadow-sm`}>
-      <div className="flex items-center justify-between px-1 pb-3">
-        <div className="flex items-center gap-3">
-          <span className="font-semibold text-neutral-800 text-lg">{meta.title}</span>
-          <span className="inline-flex items-center justify-center rounded-full bg-white/80 px-2.5 py-1 text-xs font-medium text-neutral-700 shadow-sm">
-            {items.length}
-          </span>
-        </div>
-      </div>
+      {showHeader && (
+        <ColumnHeader
+          column={column}
+          shownCount={items.length}
+          totalCount={totalCount}
+          filtered={filtered}
+          sort={sort}
+          onSortChange={onSortChange}
+        />
+      )}
       
-      <div ref={setNodeRef} className={`space-y-3 min-h-[160px] p-2 rounded-lg transition-all duration-200 ${isOver ? 'bg-white/60 ring-2 ring-blue-300 scale-[1.02]' : 'bg-transparent'}`}>
-        <SortableContext id={colKey} items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+      <div ref={setNodeRef} className={`space-y-3 ${showHeader ? 'min-h-[160px]' : 'min-h-[80px]'} p-2 rounded-lg transition-all duration-200 ${isOver ? (dropBlocked ? 'bg-red-50/60 ring-2 ring-red-300' : 'bg-white/60 ring-2 ring-blue-300 scale-[1.02]') : 'bg-transparent'}`}>
+        <SortableContext id={droppableId ?? colKey} items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
           {items.map((item, index) => (
             <SortableKanbanCard
               key={`${colKey}-${item.id}-${index}`}
               item={item}
+              columnTitle={column.title}
+              readOnly={readOnly}
+              activity={activity[item.id]}
+              checklist={checklists[item.id]}
+              checklistActions={checklistActions}
+              labels={labels}
+              members={members}
+              assigneeIds={assignees[item.id]}
+              comments={comments[item.id]}
+              commentActions={commentActions}
+              recurrence={recurrences[item.id]}
+              recurrenceActions={recurrenceActions}
+              boardColumns={boardColumns}
+              userId={userId}
+              highlight={highlight}
+              focused={focusedCardId === item.id}
+              onEditingChange={(open) => onEditingChange(item.id, open)}
               onDelete={async () => await onDelete(colKey, item.id)}
-              onEdit={async (upd) => await onEdit(colKey, upd)}
+              onEdit={async (upd, ids) => await onEdit(colKey, upd, ids)}
             />
           ))}
-          {items.length === 0 && (
+          {items.length === 0 && !readOnly && (
             <div className="h-16 rounded-md border border-dashed border-neutral-300 bg-white/50 flex items-center justify-center text-xs text-neutral-500 transition-all duration-200 hover:border-blue-400 hover:bg-blue-50/50">
               Drop here
             </div>
@@ -761,15 +2057,51 @@ function Column({ colKey, items, onDelete, onEdit }: { colKey: ColumnKey; items:
   );
 }
 
-function SortableKanbanCard({ item, onDelete, onEdit }: { item: KanbanItem; onDelete: () => Promise<void>; onEdit: (item: KanbanItem) => Promise<void>; }) {
+// Title, card count (against the WIP limit) and sort of a column
+function ColumnHeader({ column, shownCount, totalCount, filtered, sort, onSortChange }: { column: ColumnDef; shownCount: number; totalCount: number; filtered: boolean; sort: ColumnSort; onSortChange: (sort: ColumnSort) => void; }) {
+  // The count badge turns amber at the WIP limit and red past it
+  const wip = wipStatus(column, totalCount);
+  const badgeColor = wip === "over" ? "bg-red-100 text-red-700" : wip === "at" ? "bg-amber-100 text-amber-800" : "bg-white/80 text-neutral-700";
+
+  return (
+    <div className="flex items-center justify-between px-1 pb-3">
+      <div className="flex items-center gap-3">
+        <span className="font-semibold text-neutral-800 text-lg">{column.title}</span>
+        <span
+          className={`inline-flex items-center justify-center rounded-full px-2.5 py-1 text-xs font-medium shadow-sm ${badgeColor}`}
+          title={[
+            filtered ? `${shownCount} of ${totalCount} cards match the current filters` : "",
+            column.wip_limit ? `WIP limit ${column.wip_limit}${column.wip_mode === "block" ? " (moves past it are blocked)" : ""}` : "",
+          ].filter(Boolean).join("\n") || undefined}
+        >
+          {filtered ? `${shownCount} of ${totalCount}` : shownCount}
+          {column.wip_limit ? ` / ${column.wip_limit}` : ""}
+        </span>
+      </div>
+      <select
+        aria-label={`Sort ${column.title}`}
+        className="h-7 rounded-md border border-transparent bg-white/60 px-1.5 text-xs text-neutral-700 hover:border-neutral-300"
+        value={sort}
+        onChange={(e) => onSortChange(e.target.value as ColumnSort)}
+      >
+        {(Object.keys(COLUMN_SORTS) as ColumnSort[]).map(s => (
+          <option key={s} value={s}>{COLUMN_SORTS[s]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function SortableKanbanCard({ item, columnTitle, readOnly, activity, checklist, checklistActions, labels, members, assigneeIds, comments, commentActions, recurrence, recurrenceActions, boardColumns, userId, highlight, focused, onEditingChange, onDelete, onEdit }: { item: KanbanItem; columnTitle: string; readOnly: boolean; activity?: CardActivity; checklist?: ChecklistItem[]; checklistActions: ChecklistActions; labels: LabelDef[]; members: BoardMember[]; assigneeIds?: string[]; comments?: CardComment[]; commentActions: CommentActions; recurrence?: Recurrence; recurrenceActions: RecurrenceActions; boardColumns: ColumnDef[]; userId: string | null; highlight: string[]; focused: boolean; onEditingChange: (open: boolean) => void; onDelete: () => Promise<void>; onEdit: (item: KanbanItem, assigneeIds?: string[]) => Promise<void>; }) {
   const {
     attributes,
     listeners,
     setNodeRef,
+    setActivatorNodeRef,
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: item.id });
+  } = useSortable({ id: item.id, disabled: readOnly });
 
   const style = {
     transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
@@ -782,14 +2114,32 @@ function SortableKanbanCard({ item, onDelete, onEdit }: { item: KanbanItem; onDe
     <div
       ref={setNodeRef}
       style={style}
+      data-card-id={item.id}
       className={`${isDragging ? 'opacity-50 scale-105' : 'opacity-100'} transition-all duration-200`}
     >
       <KanbanCard
         item={item}
         dragging={isDragging}
+        columnTitle={columnTitle}
+        readOnly={readOnly}
+        activity={activity}
+        checklist={checklist}
+        checklistActions={checklistActions}
+        labels={labels}
+        members={members}
+        assigneeIds={assigneeIds}
+        comments={comments}
+        commentActions={commentActions}
+        recurrence={recurrence}
+        recurrenceActions={recurrenceActions}
+        boardColumns={boardColumns}
+        userId={userId}
+        highlight={highlight}
+        focused={focused}
+        onEditingChange={onEditingChange}
         onDelete={onDelete}
         onEdit={onEdit}
-        dragHandleProps={{ attributes, listeners }}
+        dragHandleProps={{ ref: setActivatorNodeRef, attributes, listeners }}
       />
     </div>
   );
@@ -798,6 +2148,23 @@ function SortableKanbanCard({ item, onDelete, onEdit }: { item: KanbanItem; onDe
 function KanbanCard({ 
   item, 
   dragging, 
+  columnTitle,
+  readOnly = false,
+  activity,
+  checklist = [],
+  checklistActions,
+  labels = [],
+  members = [],
+  assigneeIds = [],
+  comments = [],
+  commentActions,
+  recurrence,
+  recurrenceActions,
+  boardColumns = [],
+  userId = null,
+  highlight,
+  focused = false,
+  onEditingChange,
   onDelete, 
   onEdit, 
   dragHandleProps,
@@ -805,32 +2172,44 @@ function KanbanCard({
 }: { 
   item: KanbanItem; 
   dragging: boolean; 
+  columnTitle?: string;
+  readOnly?: boolean;
+  // What other people on the board are doing with this card
+  activity?: CardActivity;
+  checklist?: ChecklistItem[];
+  // Omitted on the drag overlay, which never opens the detail view
+  checklistActions?: ChecklistActions;
+  // The board's labels; the card shows the ones in item.labelIds
+  labels?: LabelDef[];
+  members?: BoardMember[];
+  assigneeIds?: string[];
+  comments?: CardComment[];
+  commentActions?: CommentActions;
+  recurrence?: Recurrence;
+  recurrenceActions?: RecurrenceActions;
+  // Where the repeat editor can send new occurrences
+  boardColumns?: ColumnDef[];
+  userId?: string | null;
+  // Search terms to mark on the card face
+  highlight?: string[];
+  // Last focused card on the board: it offers its own palette commands
+  focused?: boolean;
+  onEditingChange?: (open: boolean) => void;
   onDelete: () => Promise<void>; 
-  onEdit: (item: KanbanItem) => Promise<void>; 
-  dragHandleProps?: { attributes: DraggableAttributes; listeners?: React.DOMAttributes<Element> };
+  onEdit: (item: KanbanItem, assigneeIds?: string[]) => Promise<void>; 
+  // ref marks the handle as the keyboard activator, so Space/Enter on the title button or a link isn't a pick-up
+  dragHandleProps?: { ref: (node: HTMLElement | null) => void; attributes: DraggableAttributes; listeners?: React.DOMAttributes<Element> };
   isOverlay?: boolean;
 }) {
-  const [editTitle, setEditTitle] = React.useState(item.title);
-  const [editDesc, setEditDesc] = React.useState(item.description || "");
-  const [editLinks, setEditLinks] = React.useState((item.links || []).map(l => l.href).join(", "));
-  const [isEditing, setIsEditing] = React.useState(false);
   const [isDeleting, setIsDeleting] = React.useState(false);
-  
-  const handleSave = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsEditing(true);
-    
-    try {
-      const links = editLinks
-        .split(',')
-        .map(s => s.trim())
-        .filter(Boolean)
-        .map((href, i) => ({ label: `Link ${i + 1}`, href }));
+  const [editOpen, setEditOpen] = React.useState(false);
+  const draggedBy = isOverlay ? null : activity?.dragger ?? null;
+  const editors = isOverlay ? [] : activity?.editors ?? [];
 
-      await onEdit({ ...item, title: editTitle, description: editDesc || undefined, links: links.length ? links : undefined });
-    } finally {
-      setIsEditing(false);
-    }
+  // The detail drawer remounts on open, so it always starts from the latest card
+  const handleOpenChange = (open: boolean) => {
+    setEditOpen(open);
+    onEditingChange?.(open);
   };
 
   const handleDelete = async () => {
@@ -841,14 +2220,33 @@ function KanbanCard({
       setIsDeleting(false);
     }
   };
+
+  useRegisterCommands(() => {
+    if (!focused || isOverlay) return [];
+    const commands: Command[] = [
+      { id: "open-card", title: `Open "${item.title}"`, group: "Focused card", keywords: ["edit", "details"], run: () => handleOpenChange(true) },
+    ];
+    if (!readOnly) {
+      commands.push({ id: "delete-card", title: `Delete "${item.title}"`, group: "Focused card", keywords: ["remove"], run: handleDelete });
+    }
+    return commands;
+  });
   
   return (
-    <Dialog>
-      <Card className={`shadow-sm rounded-lg hover:shadow-md hover:scale-[1.01] transition-all duration-200 ${
+    <Dialog open={editOpen} onOpenChange={handleOpenChange}>
+      <Card className={`relative shadow-sm rounded-lg hover:shadow-md hover:scale-[1.01] transition-all duration-200 ${
         dragging ? "ring-2 ring-blue-400 shadow-xl" : "ring-1 ring-black/5"
-      } ${isOverlay ? 'cursor-grabbing' : 'cursor-grab'}`}>
+      } ${isOverlay ? 'cursor-grabbing' : readOnly ? 'cursor-default' : 'cursor-grab'} ${
+        draggedBy ? 'opacity-60 outline-2 outline-dashed outline-offset-2 outline-purple-400' : ''
+      }`}>
+        {draggedBy && (
+          <span className="absolute -top-3 right-2 z-10 rounded-full bg-purple-500 px-2 py-0.5 text-[10px] font-medium text-white shadow">
+            {draggedBy.email.split("@")[0]} is moving this
+          </span>
+        )}
         <div 
-          className="flex flex-col p-0"
+          ref={!isOverlay ? dragHandleProps?.ref : undefined}
+          className="flex flex-col p-0 rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
           {...(!isOverlay && dragHandleProps ? {
             ...dragHandleProps.attributes,
             ...(dragHandleProps.listeners as React.DOMAttributes<HTMLDivElement>)
@@ -856,8 +2254,16 @@ function KanbanCard({
         >
           <CardHeader className="px-3 py-2">
             <div className="flex items-start justify-between gap-2">
-              <CardTitle className="text-[16px] leading-tight font-semibold text-neutral-800 flex-1">{item.title}</CardTitle>
-              {!isOverlay && (
+              <PriorityIcon priority={item.priority} className="mt-0.5" />
+              <CardTitle className="text-[16px] leading-tight font-semibold text-neutral-800 flex-1">
+                {isOverlay ? item.title : (
+                  <button type="button" className="rounded-sm text-left hover:underline outline-none focus-visible:ring-2 focus-visible:ring-blue-500" onClick={() => handleOpenChange(true)}>
+                    <Highlight text={item.title} terms={highlight} />
+                  </button>
+                )}
+              </CardTitle>
+              <RepeatIcon rule={recurrence} className="mt-1" />
+              {!isOverlay && !readOnly && (
                 <div className="p-1 rounded transition-colors">
                   <GripVertical className="size-3.5 text-neutral-300" />
                 </div>
@@ -865,25 +2271,48 @@ function KanbanCard({
             </div>
           </CardHeader>
           <CardContent className="px-3 pt-0 pb-2">
+            <LabelChips labels={labels} ids={item.labelIds} className="mb-2" />
             {item.description && (
-              <p className="mb-2 text-neutral-600 text-[14px] leading-snug">{item.description}</p>
+              <Markdown source={item.description} compact highlight={highlight} className="mb-2 max-h-28 overflow-hidden text-neutral-600 text-[14px] leading-snug" />
             )}
             {item.links && item.links.length > 0 && (
               <div className="flex flex-wrap gap-1">
-                {item.links.map((l, i) => (
+                {item.links.filter(l => safeHref(l.href)).map((l, i) => (
                   <a
                     key={`${item.id}-link-chip-${i}`}
-                    href={l.href}
+                    href={safeHref(l.href)!}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="text-[11px] rounded-full bg-neutral-100 px-1.5 py-0.5 text-neutral-600 font-medium hover:underline hover:text-neutral-800 focus:outline-none focus:ring-2 focus:ring-neutral-300"
+                    title={l.href}
+                    className={`text-[11px] rounded-full px-1.5 py-0.5 text-neutral-600 font-medium hover:underline ${
+                      highlight?.some(t => l.href.toLowerCase().includes(t)) ? "bg-yellow-200" : "bg-neutral-100"
+                    } hover:text-neutral-800 focus:outline-none focus:ring-2 focus:ring-neutral-300`}
                   >
                     {l.label}
                   </a>
                 ))}
               </div>
             )}
+            {item.dueDate && <DueChip date={item.dueDate} time={item.dueTime} className="mt-2" />}
+            <ChecklistProgress items={checklist} className="mt-2" />
+            {(comments.length > 0 || assigneeIds.length > 0) && (
+              <div className="mt-2 flex items-center gap-2">
+                <CommentCount count={comments.length} />
+                <AssigneeAvatars members={members} ids={assigneeIds} className="ml-auto" />
+              </div>
+            )}
+            {editors.length > 0 && (
+              <div className="mt-2 flex items-center gap-1.5 text-[11px] text-amber-700">
+                <span className="flex -space-x-1.5">
+                  {editors.map(v => <Avatar key={v.userId} viewer={v} size="sm" />)}
+                </span>
+                <span>
+                  {editors.length === 1 ? `${editors[0].email.split("@")[0]} is editing` : `${editors.length} people editing`}
+                </span>
+              </div>
+            )}
           </CardContent>
+          {!readOnly && (
           <CardFooter className="px-3 pt-1 pb-2 border-t border-neutral-100">
             <div className="flex w-full">
               <div className="ml-auto flex gap-1.5">
@@ -921,51 +2350,39 @@ function KanbanCard({
               </div>
             </div>
           </CardFooter>
+          )}
         </div>
       </Card>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>{item.title}</DialogTitle>
-          {item.description && (
-            <DialogDescription>{item.description}</DialogDescription>
-          )}
-        </DialogHeader>
-        <form
-          onSubmit={handleSave}
-          className="space-y-3"
+      <DialogDrawer>
+        <CardDetail
+          card={{ ...item, columnTitle, assigneeIds }}
+          labels={labels}
+          members={members}
+          readOnly={readOnly}
+          onSave={async ({ assigneeIds: nextAssignees = [], ...patch }) => {
+            await onEdit({ ...item, ...patch }, nextAssignees);
+          }}
+          onDelete={onDelete}
         >
-          <div>
-            <Label htmlFor={`ed-title-${item.id}`}>Title</Label>
-            <Input id={`ed-title-${item.id}`} value={editTitle} onChange={(e) => setEditTitle(e.target.value)} />
-          </div>
-          <div>
-            <Label htmlFor={`ed-desc-${item.id}`}>Description</Label>
-            <Textarea id={`ed-desc-${item.id}`} value={editDesc} onChange={(e) => setEditDesc(e.target.value)} rows={3} />
-          </div>
-          <div>
-            <Label htmlFor={`ed-links-${item.id}`}>Links (comma separated)</Label>
-            <Input id={`ed-links-${item.id}`} value={editLinks} onChange={(e) => setEditLinks(e.target.value)} />
-          </div>
-          <DialogFooter>
-            <DialogClose asChild>
-              <Button type="button" variant="ghost">Close</Button>
-            </DialogClose>
-            <Button 
-              type="submit" 
-              disabled={isEditing}
-            >
-              {isEditing ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Saving...
-                </>
-              ) : (
-                'Save'
-              )}
-            </Button>
-          </DialogFooter>
-        </form>
-      </DialogContent>
+          {checklistActions && (
+            <ChecklistEditor cardId={item.id} items={checklist} readOnly={readOnly} actions={checklistActions} />
+          )}
+          {recurrenceActions && (
+            <RecurrenceEditor
+              cardId={item.id}
+              dueDate={item.dueDate}
+              rule={recurrence}
+              columns={boardColumns}
+              readOnly={readOnly}
+              actions={recurrenceActions}
+            />
+          )}
+          {commentActions && (
+            <CommentThread cardId={item.id} comments={comments} userId={userId} canComment={!readOnly} actions={commentActions} />
+          )}
+          <CardTimeline cardId={item.id} labels={labels} />
+        </CardDetail>
+      </DialogDrawer>
     </Dialog>
   );
 }
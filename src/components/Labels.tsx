@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import { Check, ChevronDown, Tag } from "lucide-react";
+import { labelColor, type LabelDef } from "@/lib/labels";
+
+export function LabelChip({ label, className }: { label: LabelDef; className?: string }) {
+  return (
+    <span className={`inline-flex items-center rounded-full px-1.5 py-0.5 text-[11px] font-medium ring-1 ${labelColor(label.color).chip} ${className ?? ""}`}>
+      {label.name}
+    </span>
+  );
+}
+
+// A card's labels in board order; ids of deleted labels are skipped
+export function LabelChips({ labels, ids, className }: { labels: LabelDef[]; ids?: string[] | null; className?: string }) {
+  if (!ids || ids.length === 0) return null;
+  const applied = labels.filter(l => ids.includes(l.id));
+  if (applied.length === 0) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ""}`}>
+      {applied.map(label => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+    </div>
+  );
+}
+
+// Toggleable chips for the add/edit forms
+export function LabelPicker({
+  labels,
+  selected,
+  onChange,
+}: {
+  labels: LabelDef[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  if (labels.length === 0) {
+    return <p className="text-xs text-neutral-500">No labels yet - add some from the board&apos;s Labels menu.</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1.5" role="group" aria-label="Labels">
+      {labels.map(label => {
+        const active = selected.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            aria-pressed={active}
+            onClick={() => onChange(active ? selected.filter(id => id !== label.id) : [...selected, label.id])}
+            className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ring-1 transition-opacity ${labelColor(label.color).chip} ${active ? "" : "opacity-40 hover:opacity-70"}`}
+          >
+            {active && <Check className="size-3" />}
+            {label.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Header filter: show cards carrying any of the chosen labels
+export function LabelFilter({
+  labels,
+  selected,
+  onChange,
+  className,
+}: {
+  labels: LabelDef[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  className?: string;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const ref = React.useRef<HTMLDivElement>(null);
+
+  // Close on outside clicks
+  React.useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, [open]);
+
+  const active = labels.filter(l => selected.includes(l.id));
+
+  return (
+    <div ref={ref} className={`relative ${className ?? ""}`}>
+      <button
+        type="button"
+        aria-haspopup="true"
+        aria-expanded={open}
+        onClick={() => setOpen(o => !o)}
+        className="inline-flex h-10 items-center gap-2 rounded-md border border-neutral-200 bg-white px-3 text-sm text-neutral-800 shadow-sm"
+      >
+        <Tag className="size-4" />
+        {active.length === 0 ? "All labels" : active.length === 1 ? active[0].name : `${active.length} labels`}
+        <ChevronDown className="size-3 text-neutral-500" />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-30 mt-1 w-56 rounded-md border border-neutral-200 bg-white p-1 shadow-lg">
+          {labels.length === 0 && <p className="px-2 py-1.5 text-xs text-neutral-500">This board has no labels</p>}
+          {labels.map(label => {
+            const checked = selected.includes(label.id);
+            return (
+              <label key={label.id} className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-neutral-100">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => onChange(checked ? selected.filter(id => id !== label.id) : [...selected, label.id])}
+                />
+                <span className={`h-2.5 w-2.5 rounded-full ${labelColor(label.color).swatch}`} />
+                <span className="truncate">{label.name}</span>
+              </label>
+            );
+          })}
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="mt-1 w-full rounded px-2 py-1.5 text-left text-xs text-neutral-600 hover:bg-neutral-100"
+            >
+              Clear filter
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tags, Trash2 } from "lucide-react";
+import { LABEL_COLORS, type LabelColor, type LabelDef } from "@/lib/labels";
+import type { LabelActions } from "@/hooks/useLabels";
+import { LabelChip } from "@/components/Labels";
+
+export default function LabelsDialog({
+  labels,
+  cardCounts,
+  actions,
+}: {
+  labels: LabelDef[];
+  cardCounts: Record<string, number>;
+  actions: LabelActions;
+}) {
+  const [newName, setNewName] = React.useState("");
+  const [newColor, setNewColor] = React.useState<LabelColor>("blue");
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    void actions.add(name, newColor);
+    setNewName("");
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-4">
+          <Tags />
+          Labels
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>Labels belong to this board. Deleting one removes it from its cards.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {labels.length === 0 && <p className="text-sm text-neutral-500">No labels yet.</p>}
+          {labels.map(label => (
+            <LabelRow
+              key={label.id}
+              label={label}
+              cardCount={cardCounts[label.id] ?? 0}
+              onUpdate={(patch) => void actions.update(label.id, patch)}
+              onDelete={() => void actions.remove(label.id)}
+            />
+          ))}
+        </div>
+        <form onSubmit={handleAdd} className="mt-4 flex items-end gap-2 border-t border-neutral-100 pt-4">
+          <div className="flex-1">
+            <Label htmlFor="new-label-name">New label</Label>
+            <Input id="new-label-name" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g. bug" />
+          </div>
+          <LabelColorPicker value={newColor} onChange={setNewColor} />
+          <Button type="submit" disabled={!newName.trim()}>Add</Button>
+        </form>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="ghost">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LabelRow({
+  label,
+  cardCount,
+  onUpdate,
+  onDelete,
+}: {
+  label: LabelDef;
+  cardCount: number;
+  onUpdate: (patch: Partial<Pick<LabelDef, "name" | "color">>) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = React.useState(label.name);
+  const [confirming, setConfirming] = React.useState(false);
+
+  // Keep the field in sync when the label is renamed elsewhere
+  React.useEffect(() => {
+    setName(label.name);
+  }, [label.name]);
+
+  function commitName() {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(label.name);
+    } else if (trimmed !== label.name) {
+      onUpdate({ name: trimmed });
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 p-2">
+      <div className="flex items-center gap-2">
+        <LabelChip label={{ ...label, name: name || label.name }} className="shrink-0" />
+        <Input
+          aria-label={`Name of ${label.name}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commitName(); } }}
+          className="flex-1"
+        />
+        <LabelColorPicker value={label.color} onChange={(color) => onUpdate({ color })} />
+        <Button size="iconXs" variant="destructive" aria-label={`Delete ${label.name}`} onClick={() => setConfirming(true)}>
+          <Trash2 className="size-3" />
+        </Button>
+      </div>
+      {confirming && (
+        <div className="mt-2 flex items-center gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+          <span>
+            {cardCount > 0
+              ? `Remove "${label.name}" from ${cardCount} ${cardCount === 1 ? "card" : "cards"} and delete it?`
+              : `Delete "${label.name}"?`}
+          </span>
+          <div className="ml-auto flex gap-1">
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => setConfirming(false)}>Cancel</Button>
+            <Button size="sm" variant="destructive" className="h-7" onClick={() => { setConfirming(false); onDelete(); }}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LabelColorPicker({ value, onChange }: { value: LabelColor; onChange: (color: LabelColor) => void }) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label="Label color">
+      {(Object.keys(LABEL_COLORS) as LabelColor[]).map(color => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={LABEL_COLORS[color].label}
+          title={LABEL_COLORS[color].label}
+          onClick={() => onChange(color)}
+          className={`h-5 w-5 rounded-full ${LABEL_COLORS[color].swatch} ${value === color ? "ring-2 ring-offset-1 ring-neutral-700" : "ring-1 ring-black/10"}`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, Rows3, Trash2 } from "lucide-react";
+import type { LaneDef } from "@/lib/lanes";
+import type { LaneActions } from "@/hooks/useLanes";
+
+export default function LanesDialog({
+  lanes,
+  cardCounts,
+  actions,
+}: {
+  lanes: LaneDef[];
+  cardCounts: Record<string, number>;
+  actions: LaneActions;
+}) {
+  const [newName, setNewName] = React.useState("");
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    void actions.add(name);
+    setNewName("");
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-4">
+          <Rows3 />
+          Lanes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Swimlanes</DialogTitle>
+          <DialogDescription>
+            Lanes group cards across every column, e.g. by project. Deleting one moves its cards to No lane.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {lanes.length === 0 && <p className="text-sm text-neutral-500">No lanes yet.</p>}
+          {lanes.map((lane, index) => (
+            <LaneRow
+              key={lane.id}
+              lane={lane}
+              cardCount={cardCounts[lane.id] ?? 0}
+              isFirst={index === 0}
+              isLast={index === lanes.length - 1}
+              onRename={(name) => void actions.rename(lane.id, name)}
+              onMove={(direction) => void actions.move(lane.id, direction)}
+              onDelete={() => void actions.remove(lane.id)}
+            />
+          ))}
+        </div>
+        <form onSubmit={handleAdd} className="mt-4 flex items-end gap-2 border-t border-neutral-100 pt-4">
+          <div className="flex-1">
+            <Label htmlFor="new-lane-name">New lane</Label>
+            <Input id="new-lane-name" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g. Website" />
+          </div>
+          <Button type="submit" disabled={!newName.trim()}>Add</Button>
+        </form>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="ghost">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LaneRow({
+  lane,
+  cardCount,
+  isFirst,
+  isLast,
+  onRename,
+  onMove,
+  onDelete,
+}: {
+  lane: LaneDef;
+  cardCount: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onRename: (name: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = React.useState(lane.name);
+  const [confirming, setConfirming] = React.useState(false);
+
+  // Keep the field in sync when the lane is renamed elsewhere
+  React.useEffect(() => {
+    setName(lane.name);
+  }, [lane.name]);
+
+  function commitName() {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(lane.name);
+    } else if (trimmed !== lane.name) {
+      onRename(trimmed);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-neutral-200 p-2">
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label={`Name of ${lane.name}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commitName(); } }}
+          className="flex-1"
+        />
+        <span className="w-16 text-right text-xs text-neutral-500">
+          {cardCount} {cardCount === 1 ? "card" : "cards"}
+        </span>
+        <Button size="iconXs" variant="outline" aria-label="Move up" disabled={isFirst} onClick={() => onMove(-1)}>
+          <ArrowUp className="size-3" />
+        </Button>
+        <Button size="iconXs" variant="outline" aria-label="Move down" disabled={isLast} onClick={() => onMove(1)}>
+          <ArrowDown className="size-3" />
+        </Button>
+        <Button size="iconXs" variant="destructive" aria-label={`Delete ${lane.name}`} onClick={() => setConfirming(true)}>
+          <Trash2 className="size-3" />
+        </Button>
+      </div>
+      {confirming && (
+        <div className="mt-2 flex items-center gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+          <span>
+            {cardCount > 0
+              ? `Move ${cardCount} ${cardCount === 1 ? "card" : "cards"} to No lane and delete "${lane.name}"?`
+              : `Delete "${lane.name}"?`}
+          </span>
+          <div className="ml-auto flex gap-1">
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => setConfirming(false)}>Cancel</Button>
+            <Button size="sm" variant="destructive" className="h-7" onClick={() => { setConfirming(false); onDelete(); }}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
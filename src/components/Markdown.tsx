@@ -0,0 +1,123 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { parseMarkdown, type Block, type Inline } from "@/lib/markdown";
+import Highlight from "@/components/Highlight";
+
+// Search terms to mark in text runs, so every nesting level doesn't need a prop
+const HighlightContext = React.createContext<string[] | undefined>(undefined);
+
+// Renders Markdown through lib/markdown's tree - no HTML is ever injected
+export default function Markdown({
+  source,
+  compact = false,
+  highlight,
+  className,
+}: {
+  source: string;
+  compact?: boolean;
+  highlight?: string[];
+  className?: string;
+}) {
+  const blocks = React.useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <HighlightContext.Provider value={highlight}>
+      <div className={cn(compact ? "space-y-1" : "space-y-3", "break-words", className)}>
+        {blocks.map((block, i) => (
+          <BlockNode key={i} block={block} compact={compact} />
+        ))}
+      </div>
+    </HighlightContext.Provider>
+  );
+}
+
+const HEADING_CLASSES = [
+  "text-xl font-bold",
+  "text-lg font-bold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold text-neutral-600",
+];
+
+function BlockNode({ block, compact }: { block: Block; compact: boolean }) {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+      return (
+        <Tag className={compact ? "font-semibold" : HEADING_CLASSES[block.level - 1]}>
+          <InlineNodes nodes={block.children} />
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return <p><InlineNodes nodes={block.children} /></p>;
+    case "list": {
+      const isTaskList = block.items.some(item => item.checked !== null);
+      const items = block.items.map((item, i) => (
+        <li key={i} className={item.checked !== null ? "flex items-start gap-2 list-none" : undefined}>
+          {item.checked !== null && (
+            <input type="checkbox" checked={item.checked} readOnly disabled className="mt-1 h-3.5 w-3.5 accent-blue-600" />
+          )}
+          <span className={item.checked ? "text-neutral-500 line-through" : undefined}>
+            <InlineNodes nodes={item.children} />
+          </span>
+        </li>
+      ));
+      const listClass = cn("space-y-0.5", !isTaskList && "pl-5", block.ordered ? "list-decimal" : "list-disc");
+      return block.ordered
+        ? <ol start={block.start} className={listClass}>{items}</ol>
+        : <ul className={listClass}>{items}</ul>;
+    }
+    case "code":
+      return (
+        <pre className="overflow-x-auto rounded-md bg-neutral-900 p-3 text-xs leading-relaxed text-neutral-100">
+          <code data-lang={block.lang || undefined}>{block.text}</code>
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote className="border-l-2 border-neutral-300 pl-3 text-neutral-600">
+          {block.children.map((child, i) => (
+            <BlockNode key={i} block={child} compact={compact} />
+          ))}
+        </blockquote>
+      );
+    case "rule":
+      return <hr className="border-neutral-200" />;
+  }
+}
+
+function InlineNodes({ nodes }: { nodes: Inline[] }) {
+  const highlight = React.useContext(HighlightContext);
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <Highlight key={i} text={node.text} terms={highlight} />;
+          case "code":
+            return <code key={i} className="rounded bg-neutral-100 px-1 py-0.5 font-mono text-[0.9em] text-neutral-800">{node.text}</code>;
+          case "strong":
+            return <strong key={i}><InlineNodes nodes={node.children} /></strong>;
+          case "em":
+            return <em key={i}><InlineNodes nodes={node.children} /></em>;
+          case "link":
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 underline hover:text-blue-800"
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                <InlineNodes nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
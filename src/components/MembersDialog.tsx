@@ -0,0 +1,169 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2, Users } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { applyQueuedWrites, enqueueWrite } from "@/lib/writeQueue";
+import { useSession } from "@/hooks/useSession";
+import type { BoardRole } from "@/hooks/useBoardRole";
+
+type Member = { id: string; board_id: string; email: string; user_id: string | null; role: BoardRole };
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const selectClass = "h-8 rounded-md border border-neutral-200 bg-white px-2 text-sm shadow-sm";
+
+// Everyone on the board can see the member list; only owners can change it
+export default function MembersDialog({ boardId, canManage }: { boardId: string; canManage: boolean }) {
+  const { user } = useSession();
+  const [members, setMembers] = React.useState<Member[]>([]);
+  const [email, setEmail] = React.useState("");
+  const [role, setRole] = React.useState<BoardRole>("editor");
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function fetchMembers() {
+    const { data, error } = await supabase
+      .from("board_members")
+      .select("id, board_id, email, user_id, role")
+      .eq("board_id", boardId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error fetching members:", error);
+      setError("Failed to load members.");
+      return;
+    }
+    setMembers(await applyQueuedWrites("board_members", (data || []) as Member[], { board_id: boardId }));
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    const normalized = email.trim().toLowerCase();
+    if (!normalized) return;
+    if (members.some(m => m.email === normalized)) {
+      setError(`${normalized} is already on this board.`);
+      return;
+    }
+    setError(null);
+
+    const member: Member = { id: crypto.randomUUID(), board_id: boardId, email: normalized, user_id: null, role };
+    const previous = members;
+    setMembers(prev => [...prev, member]);
+    setEmail("");
+    const { error } = await enqueueWrite({
+      table: "board_members",
+      action: "insert",
+      rowId: member.id,
+      values: { id: member.id, board_id: boardId, email: normalized, role },
+    });
+    if (error) {
+      console.error("Error inviting member:", error);
+      setError(`Failed to invite ${normalized}: ${error.message}`);
+      setMembers(previous);
+    }
+  }
+
+  async function handleRoleChange(member: Member, nextRole: BoardRole) {
+    const previous = members;
+    setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role: nextRole } : m)));
+    const { error } = await enqueueWrite({ table: "board_members", action: "update", rowId: member.id, values: { role: nextRole } });
+    if (error) {
+      console.error("Error changing role:", error);
+      setError(`Failed to change role: ${error.message}`);
+      setMembers(previous);
+    }
+  }
+
+  async function handleRemove(member: Member) {
+    const previous = members;
+    setMembers(prev => prev.filter(m => m.id !== member.id));
+    const { error } = await enqueueWrite({ table: "board_members", action: "delete", rowId: member.id });
+    if (error) {
+      console.error("Error removing member:", error);
+      setError(`Failed to remove ${member.email}: ${error.message}`);
+      setMembers(previous);
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={(open) => { if (open) { setError(null); void fetchMembers(); } }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-4">
+          <Users />
+          Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            Editors can add, move and edit cards. Viewers can only look. Owners also manage columns and members.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {members.map(member => {
+            // Owners can't lock themselves out from here
+            const isSelf = member.user_id === user?.id;
+            return (
+              <div key={member.id} className="flex items-center gap-2 rounded-lg border border-neutral-200 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-neutral-800 truncate" title={member.email}>
+                    {member.email}
+                    {isSelf && <span className="ml-1 text-neutral-500">(you)</span>}
+                  </p>
+                  {!member.user_id && <p className="text-xs text-neutral-500">Invited - joins on first sign-in</p>}
+                </div>
+                {canManage && !isSelf ? (
+                  <>
+                    <select
+                      aria-label={`Role of ${member.email}`}
+                      className={selectClass}
+                      value={member.role}
+                      onChange={(e) => void handleRoleChange(member, e.target.value as BoardRole)}
+                    >
+                      {(Object.keys(ROLE_LABELS) as BoardRole[]).map(r => (
+                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                    <Button size="iconXs" variant="destructive" aria-label={`Remove ${member.email}`} onClick={() => void handleRemove(member)}>
+                      <Trash2 className="size-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs font-medium text-neutral-600">{ROLE_LABELS[member.role]}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {canManage && (
+          <form onSubmit={handleInvite} className="mt-4 flex items-end gap-2 border-t border-neutral-100 pt-4">
+            <div className="flex-1">
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <Input id="invite-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="name@example.com" />
+            </div>
+            <select aria-label="Role" className={`${selectClass} h-9`} value={role} onChange={(e) => setRole(e.target.value as BoardRole)}>
+              {(Object.keys(ROLE_LABELS) as BoardRole[]).map(r => (
+                <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+              ))}
+            </select>
+            <Button type="submit" disabled={!email.trim()}>Invite</Button>
+          </form>
+        )}
+        {error && <p className="text-red-600 text-xs">{error}</p>}
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="ghost">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,47 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogDrawer, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Pencil, Trash2, Plus, RefreshCw } from "lucide-react";
 import { supabase } from "@/lib/supabaseClient";
+import { compareRanks, rankBetween } from "@/lib/rank";
+import { applyQueuedWrites, enqueueWrite } from "@/lib/writeQueue";
+import { useWriteQueue } from "@/hooks/useWriteQueue";
+import { useBoardRole } from "@/hooks/useBoardRole";
+import { useChecklists, type ChecklistActions, type ChecklistItem } from "@/hooks/useChecklists";
+import { defaultColumnsFor } from "@/lib/columns";
+import BoardSwitcher from "@/components/BoardSwitcher";
+import UserMenu from "@/components/UserMenu";
+import CardDetail from "@/components/CardDetail";
+import Markdown from "@/components/Markdown";
+import { parseLinks, safeHref } from "@/lib/markdown";
+import ChecklistEditor, { ChecklistProgress } from "@/components/Checklist";
+import DueDateFields, { DueChip } from "@/components/DueDate";
+import { LabelChips, LabelPicker } from "@/components/Labels";
+import PrioritySelect, { PriorityIcon } from "@/components/Priority";
+import { useLabels } from "@/hooks/useLabels";
+import { useTemplates } from "@/hooks/useTemplates";
+import { useRecurrences, type RecurrenceActions } from "@/hooks/useRecurrences";
+import RecurrenceEditor, { RepeatIcon } from "@/components/Recurrence";
+import type { Recurrence } from "@/lib/recurrence";
+import { TemplatePicker } from "@/components/TemplatesDialog";
+import type { TemplateFields } from "@/lib/templates";
+import { useAssignees, type AssigneeActions, type BoardMember } from "@/hooks/useAssignees";
+import { AssigneeAvatars, AssigneePicker } from "@/components/Assignees";
+import { useComments, type CardComment, type CommentActions } from "@/hooks/useComments";
+import CommentThread, { CommentCount } from "@/components/Comments";
+import CardTimeline from "@/components/CardTimeline";
+import Highlight from "@/components/Highlight";
+import SearchBox from "@/components/SearchBox";
+import { isEmptyQuery, matchesQuery, parseQuery } from "@/lib/search";
+import { diffCardFields, recordCardEvent } from "@/lib/cardEvents";
+import type { LabelDef } from "@/lib/labels";
+import type { Priority } from "@/lib/priority";
 
 type TodoItem = {
   id: string;
@@ -16,21 +49,89 @@ type TodoItem = {
   description?: string;
   links?: { label: string; href: string }[];
   column_key: string;
+  rank?: string | null;
+  due_date?: string | null;
+  due_time?: string | null;
+  label_ids?: string[] | null;
+  priority?: Priority | null;
   created_at: string;
   updated_at: string;
 };
 
 
-export default function MobileTodoList() {
+export default function MobileTodoList({ boardId }: { boardId: string }) {
   const [todos, setTodos] = useState<TodoItem[]>([]);
+  const { canEdit } = useBoardRole(boardId);
   const [addOpen, setAddOpen] = useState(false);
   const [newTitle, setNewTitle] = useState("");
   const [newDesc, setNewDesc] = useState("");
   const [newLinks, setNewLinks] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+  const [newDueTime, setNewDueTime] = useState("");
+  const [newLabelIds, setNewLabelIds] = useState<string[]>([]);
+  const [newPriority, setNewPriority] = useState<Priority>("none");
+  const [newAssigneeIds, setNewAssigneeIds] = useState<string[]>([]);
+  // Set by a template that targets another column; new tasks otherwise go to the first one
+  const [newColumn, setNewColumn] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
+  const { pendingCount, failedCount, flush, retryFailed, discardFailed } = useWriteQueue();
+  const [firstColumn, setFirstColumn] = useState(() => defaultColumnsFor(boardId)[0].key);
+  const [columnTitles, setColumnTitles] = useState<Record<string, string>>({});
+  const checklists = useChecklists(boardId, setError);
+  const { labels } = useLabels(boardId, setError);
+  const { templates } = useTemplates(boardId, setError);
+  const recurrences = useRecurrences(boardId, setError);
+  // In board order: the column rows are fetched by position
+  const boardColumns = useMemo(() => Object.entries(columnTitles).map(([key, title]) => ({ key, title })), [columnTitles]);
+  const assignees = useAssignees(boardId, setError);
+  const comments = useComments(boardId, setError);
+  const [search, setSearch] = useState("");
+  const searchQuery = useMemo(() => parseQuery(search), [search]);
+
+  const fetchTodos = useCallback(async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setIsRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+      const { data, error } = await supabase
+        .from("kanban_cards")
+        .select("*")
+        .eq("board_id", boardId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching todos:", error);
+        setError("Failed to load tasks. Please try again.");
+        return;
+      }
+
+      // Include local changes that are still waiting in the offline queue
+      setTodos(await applyQueuedWrites("kanban_cards", (data || []) as TodoItem[], { board_id: boardId }));
+
+      // New tasks land in the board's first column
+      const { data: columns } = await supabase
+        .from("kanban_columns")
+        .select("key, title, position")
+        .eq("board_id", boardId)
+        .order("position", { ascending: true });
+      const columnRows = await applyQueuedWrites("kanban_columns", columns || [], { board_id: boardId });
+      const first = [...columnRows].sort((a, b) => a.position - b.position)[0];
+      setFirstColumn(first?.key ?? defaultColumnsFor(boardId)[0].key);
+      setColumnTitles(Object.fromEntries(columnRows.map(c => [c.key, c.title])));
+    } catch (error) {
+      console.error("Error fetching todos:", error);
+      setError("Failed to load tasks. Please check your connection.");
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [boardId]);
 
   // Fetch todos from Supabase and set up real-time subscription
   useEffect(() => {
@@ -38,13 +139,15 @@ export default function MobileTodoList() {
 
     // Set up real-time subscription for kanban_cards table
     const subscription = supabase
-      .channel('kanban_cards_changes')
+      .channel(`kanban_cards_changes:${boardId}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'kanban_cards'
+          table: 'kanban_cards',
+          // Note: realtime skips this filter for DELETE events; unknown ids are a no-op below
+          filter: `board_id=eq.${boardId}`
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         (payload: any) => {
@@ -54,7 +157,10 @@ export default function MobileTodoList() {
             case 'INSERT':
               console.log('INSERT event:', payload.new);
               if (payload.new) {
-                setTodos(prev => [payload.new as TodoItem, ...prev]);
+                // Skip the echo of a task this device already added
+                setTodos(prev => prev.some(todo => todo.id === payload.new.id)
+                  ? prev
+                  : [payload.new as TodoItem, ...prev]);
               }
               break;
             case 'UPDATE':
@@ -84,6 +190,8 @@ export default function MobileTodoList() {
         console.log('Subscription status:', status);
         if (status === 'SUBSCRIBED') {
           setConnectionStatus('connected');
+          // Connection is back - replay whatever was queued while offline
+          void flush();
         } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
           setConnectionStatus('disconnected');
         }
@@ -93,35 +201,15 @@ export default function MobileTodoList() {
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [boardId, fetchTodos, flush]);
 
-  const fetchTodos = async (isRefresh = false) => {
-    try {
-      if (isRefresh) {
-        setIsRefreshing(true);
-      } else {
-        setLoading(true);
-      }
-      setError(null);
-      const { data, error } = await supabase
-        .from("kanban_cards")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("Error fetching todos:", error);
-        setError("Failed to load tasks. Please try again.");
-        return;
-      }
-
-      setTodos(data || []);
-    } catch (error) {
-      console.error("Error fetching todos:", error);
-      setError("Failed to load tasks. Please check your connection.");
-    } finally {
-      setLoading(false);
-      setIsRefreshing(false);
-    }
+  const applyTemplateFields = (fields: TemplateFields) => {
+    setNewTitle(fields.title);
+    setNewDesc(fields.description);
+    setNewLinks(fields.links);
+    setNewPriority(fields.priority);
+    setNewLabelIds(fields.labelIds.filter(id => labels.some(l => l.id === id)));
+    setNewColumn(fields.columnKey && columnTitles[fields.columnKey] ? fields.columnKey : null);
   };
 
   const handleAddTodo = async (e: React.FormEvent) => {
@@ -133,41 +221,71 @@ export default function MobileTodoList() {
       setError(null);
       console.log("Adding new todo:", { newTitle, newDesc, newLinks });
       
-      const links = newLinks
-        .split(',')
-        .map(s => s.trim())
-        .filter(Boolean)
-        .map((href, i) => ({ label: `Link ${i + 1}`, href }));
+      const links = parseLinks(newLinks);
 
+      // New tasks go on top of the first column on the board, or the template's column
+      const column = newColumn ?? firstColumn;
+      const firstRank = todos
+        .filter(todo => todo.column_key === column && todo.rank)
+        .map(todo => todo.rank!)
+        .sort(compareRanks)[0];
+
+      const now = new Date().toISOString();
       const insertData = {
+        id: crypto.randomUUID(),
         title: newTitle,
         description: newDesc || null,
         links: links.length ? links : null,
-        column_key: "todo",
+        board_id: boardId,
+        column_key: column,
         position: 0,
+        rank: rankBetween(null, firstRank),
+        due_date: newDueDate || null,
+        due_time: newDueDate && newDueTime ? newDueTime : null,
+        label_ids: newLabelIds,
+        priority: newPriority,
+        created_at: now,
+        updated_at: now,
       };
       
       console.log("Inserting data:", insertData);
 
-      const { data, error } = await supabase
-        .from("kanban_cards")
-        .insert(insertData)
-        .select()
-        .single();
+      // Update local state immediately for better UX; the write goes out through the offline queue
+      const newTodo: TodoItem = {
+        ...insertData,
+        description: insertData.description ?? undefined,
+        links: insertData.links ?? undefined,
+      };
+      setTodos(prev => [newTodo, ...prev]);
+      const assigneeIds = newAssigneeIds;
+      setNewTitle("");
+      setNewDesc("");
+      setNewLinks("");
+      setNewDueDate("");
+      setNewDueTime("");
+      setNewLabelIds([]);
+      setNewPriority("none");
+      setNewAssigneeIds([]);
+      setNewColumn(null);
+      setAddOpen(false);
+
+      const { error, queued } = await enqueueWrite({
+        table: "kanban_cards",
+        action: "insert",
+        rowId: insertData.id,
+        values: insertData,
+      });
 
       if (error) {
         console.error("Error adding todo:", error);
         setError(`Failed to add task: ${error.message}`);
+        setTodos(prev => prev.filter(todo => todo.id !== insertData.id));
         return;
       }
 
-      console.log("Successfully added todo:", data);
-      // Update local state immediately for better UX
-      setTodos(prev => [data, ...prev]);
-      setNewTitle("");
-      setNewDesc("");
-      setNewLinks("");
-      setAddOpen(false);
+      console.log(queued ? "Queued new todo:" : "Successfully added todo:", insertData.id);
+      void recordCardEvent({ card_id: insertData.id, board_id: boardId, kind: "created", to_column: insertData.column_key });
+      if (assigneeIds.length) await assignees.actions.set(insertData.id, assigneeIds);
     } catch (error) {
       console.error("Error adding todo:", error);
       setError("Failed to add task. Please check your connection.");
@@ -179,24 +297,27 @@ export default function MobileTodoList() {
       setError(null);
       console.log("Deleting todo with id:", id);
       
-      const { error } = await supabase
-        .from("kanban_cards")
-        .delete()
-        .eq("id", id);
+      const removed = todos.find(todo => todo.id === id);
+      // Update local state immediately for better UX
+      setTodos(prev => prev.filter(todo => todo.id !== id));
+
+      const { error, queued } = await enqueueWrite({ table: "kanban_cards", action: "delete", rowId: id });
 
       if (error) {
         console.error("Error deleting todo:", error);
         setError(`Failed to delete task: ${error.message}`);
+        if (removed) {
+          setTodos(prev => [removed, ...prev]);
+        }
         throw error; // Throw error so the calling function knows it failed
       }
 
-      console.log("Successfully deleted todo with id:", id);
-      // Update local state immediately for better UX
-      setTodos(prev => prev.filter(todo => todo.id !== id));
+      console.log(queued ? "Queued delete for todo with id:" : "Successfully deleted todo with id:", id);
+      void recordCardEvent({ card_id: id, board_id: boardId, kind: "deleted", from_column: removed?.column_key ?? null });
       // Return success indicator (void for consistency)
     } catch (error) {
       console.error("Error deleting todo:", error);
-      setError("Failed to delete task. Please check your connection.");
+      setError(prev => prev ?? "Failed to delete task. Please check your connection.");
       throw error; // Re-throw so the calling function knows it failed
     }
   };
@@ -208,33 +329,51 @@ export default function MobileTodoList() {
       
       const updateData = {
         title: updatedData.title,
-        description: updatedData.description,
-        links: updatedData.links,
+        description: updatedData.description ?? null,
+        links: updatedData.links ?? null,
+        due_date: updatedData.due_date ?? null,
+        due_time: updatedData.due_date ? updatedData.due_time ?? null : null,
+        label_ids: updatedData.label_ids ?? [],
+        priority: updatedData.priority ?? "none",
         updated_at: new Date().toISOString(),
       };
       
       console.log("Update data:", updateData);
 
-      const { data, error } = await supabase
-        .from("kanban_cards")
-        .update(updateData)
-        .eq("id", id)
-        .select()
-        .single();
+      const previous = todos.find(todo => todo.id === id);
+      if (!previous) {
+        throw new Error(`Task ${id} not found`);
+      }
+      const updated: TodoItem = { ...previous, ...updatedData, updated_at: updateData.updated_at };
+      // Update local state immediately for better UX
+      setTodos(prev => prev.map(todo => todo.id === id ? updated : todo));
+
+      const { error, queued } = await enqueueWrite({
+        table: "kanban_cards",
+        action: "update",
+        rowId: id,
+        values: updateData,
+      });
 
       if (error) {
         console.error("Error updating todo:", error);
         setError(`Failed to update task: ${error.message}`);
+        setTodos(prev => prev.map(todo => todo.id === id ? previous : todo));
         throw error; // Throw error so the calling function knows it failed
       }
 
-      console.log("Successfully updated todo:", data);
-      // Update local state immediately for better UX
-      setTodos(prev => prev.map(todo => todo.id === id ? data : todo));
-      return data; // Return the updated data
+      console.log(queued ? "Queued update for todo:" : "Successfully updated todo:", id);
+      void recordCardEvent({
+        card_id: id,
+        board_id: boardId,
+        kind: "edited",
+        // Postgres returns HH:MM:SS; the form writes HH:MM
+        changes: diffCardFields({ ...previous, due_time: previous.due_time?.slice(0, 5) ?? null }, updateData),
+      });
+      return updated; // Return the updated data
     } catch (error) {
       console.error("Error updating todo:", error);
-      setError("Failed to update task. Please check your connection.");
+      setError(prev => prev ?? "Failed to update task. Please check your connection.");
       throw error; // Re-throw so the calling function knows it failed
     }
   };
@@ -250,6 +389,23 @@ export default function MobileTodoList() {
     );
   }
 
+  const searching = !isEmptyQuery(searchQuery);
+  const visibleTodos = searching
+    ? todos.filter(todo => matchesQuery(
+        searchQuery,
+        {
+          title: todo.title,
+          description: todo.description,
+          links: todo.links,
+          createdAt: todo.created_at,
+          updatedAt: todo.updated_at,
+          dueDate: todo.due_date,
+          labelIds: todo.label_ids,
+        },
+        { key: todo.column_key, title: columnTitles[todo.column_key] ?? todo.column_key }
+      ))
+    : todos;
+
   return (
     <div className="min-h-screen bg-white">
       {/* Header */}
@@ -257,8 +413,10 @@ export default function MobileTodoList() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold text-gray-900">My Tasks</h1>
+            <BoardSwitcher boardId={boardId} className="mt-2" />
+            <UserMenu className="mt-2 text-gray-600" />
             <p className="text-gray-600 text-sm mt-1">
-              {todos.length} {todos.length === 1 ? 'task' : 'tasks'}
+              {searching ? `${visibleTodos.length} of ${todos.length}` : todos.length} {todos.length === 1 ? 'task' : 'tasks'}
             </p>
             <div className="flex items-center gap-2 mt-2">
               <button
@@ -278,6 +436,18 @@ export default function MobileTodoList() {
                    connectionStatus === 'connecting' ? 'Connecting...' : 
                    'Offline'}
               </span>
+              {pendingCount > 0 && (
+                <span className="text-xs text-yellow-600">
+                  {pendingCount} {pendingCount === 1 ? 'change' : 'changes'} pending
+                </span>
+              )}
+              {failedCount > 0 && (
+                <span className="text-xs text-red-600">
+                  {failedCount} failed
+                  <button onClick={() => void retryFailed()} className="ml-2 underline">Retry</button>
+                  <button onClick={discardFailed} className="ml-2 underline">Discard</button>
+                </span>
+              )}
             </div>
             {error && (
               <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md">
@@ -291,6 +461,7 @@ export default function MobileTodoList() {
               </div>
             )}
           </div>
+          {canEdit && (
           <Dialog open={addOpen} onOpenChange={setAddOpen}>
             <DialogTrigger asChild>
               <Button className="bg-blue-600 hover:bg-blue-700 text-white rounded-full p-3">
@@ -305,6 +476,10 @@ export default function MobileTodoList() {
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleAddTodo} className="space-y-4">
+                <TemplatePicker id="new-template" templates={templates} onApply={applyTemplateFields} />
+                {newColumn && newColumn !== firstColumn && (
+                  <p className="text-xs text-neutral-500">Goes to {columnTitles[newColumn]}</p>
+                )}
                 <div>
                   <Label htmlFor="title">Title</Label>
                   <Input 
@@ -334,6 +509,25 @@ export default function MobileTodoList() {
                     onChange={(e) => setNewLinks(e.target.value)} 
                   />
                 </div>
+                <DueDateFields
+                  id="new-due"
+                  date={newDueDate}
+                  time={newDueTime}
+                  onChange={(date, time) => { setNewDueDate(date); setNewDueTime(time); }}
+                />
+                <PrioritySelect id="new-priority" value={newPriority} onChange={setNewPriority} />
+                <div>
+                  <Label>Assignees</Label>
+                  <div className="mt-1">
+                    <AssigneePicker members={assignees.members} selected={newAssigneeIds} onChange={setNewAssigneeIds} />
+                  </div>
+                </div>
+                <div>
+                  <Label>Labels</Label>
+                  <div className="mt-1">
+                    <LabelPicker labels={labels} selected={newLabelIds} onChange={setNewLabelIds} />
+                  </div>
+                </div>
                 <DialogFooter>
                   <DialogClose asChild>
                     <Button type="button" variant="outline">Cancel</Button>
@@ -345,7 +539,9 @@ export default function MobileTodoList() {
               </form>
             </DialogContent>
           </Dialog>
+          )}
         </div>
+        <SearchBox value={search} onChange={setSearch} className="mt-4" />
       </div>
 
       {/* Todo List */}
@@ -358,20 +554,41 @@ export default function MobileTodoList() {
               </svg>
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No tasks yet</h3>
-            <p className="text-gray-600 mb-4">Get started by adding your first task.</p>
-            <Button 
-              onClick={() => setAddOpen(true)}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Task
-            </Button>
+            {canEdit && (
+              <>
+                <p className="text-gray-600 mb-4">Get started by adding your first task.</p>
+                <Button 
+                  onClick={() => setAddOpen(true)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Task
+                </Button>
+              </>
+            )}
           </div>
+        ) : visibleTodos.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500">No tasks match &ldquo;{search}&rdquo;</p>
         ) : (
-          todos.map((todo) => (
+          visibleTodos.map((todo) => (
             <TodoCard
               key={todo.id}
               todo={todo}
+              highlight={searchQuery.terms}
+              columnTitle={columnTitles[todo.column_key]}
+              checklist={checklists.byCard[todo.id] ?? []}
+              checklistActions={checklists.actions}
+              labels={labels}
+              members={assignees.members}
+              assigneeIds={assignees.byCard[todo.id] ?? []}
+              assigneeActions={assignees.actions}
+              comments={comments.byCard[todo.id] ?? []}
+              commentActions={comments.actions}
+              recurrence={recurrences.byCard[todo.id]}
+              recurrenceActions={recurrences.actions}
+              boardColumns={boardColumns}
+              userId={comments.userId}
+              readOnly={!canEdit}
               onDelete={handleDeleteTodo}
               onEdit={handleEditTodo}
             />
@@ -384,43 +601,45 @@ export default function MobileTodoList() {
 
 function TodoCard({ 
   todo, 
+  highlight,
+  columnTitle,
+  checklist,
+  checklistActions,
+  labels,
+  members,
+  assigneeIds,
+  assigneeActions,
+  comments,
+  commentActions,
+  recurrence,
+  recurrenceActions,
+  boardColumns,
+  userId,
+  readOnly,
   onDelete, 
   onEdit 
 }: { 
   todo: TodoItem; 
+  highlight: string[];
+  columnTitle?: string;
+  checklist: ChecklistItem[];
+  checklistActions: ChecklistActions;
+  labels: LabelDef[];
+  members: BoardMember[];
+  assigneeIds: string[];
+  assigneeActions: AssigneeActions;
+  comments: CardComment[];
+  commentActions: CommentActions;
+  recurrence?: Recurrence;
+  recurrenceActions: RecurrenceActions;
+  boardColumns: { key: string; title: string }[];
+  userId: string | null;
+  readOnly: boolean;
   onDelete: (id: string) => Promise<void>; 
   onEdit: (id: string, data: Partial<TodoItem>) => Promise<TodoItem>;
 }) {
-  const [editOpen, setEditOpen] = useState(false);
-  const [editTitle, setEditTitle] = useState(todo.title);
-  const [editDesc, setEditDesc] = useState(todo.description || "");
-  const [editLinks, setEditLinks] = useState(
-    (todo.links || []).map(l => l.href).join(", ")
-  );
+  const [detailOpen, setDetailOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
-
-  const handleSave = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsEditing(true);
-    
-    try {
-      const links = editLinks
-        .split(',')
-        .map(s => s.trim())
-        .filter(Boolean)
-        .map((href, i) => ({ label: `Link ${i + 1}`, href }));
-
-      await onEdit(todo.id, {
-        title: editTitle,
-        description: editDesc || undefined,
-        links: links.length ? links : undefined,
-      });
-      setEditOpen(false);
-    } finally {
-      setIsEditing(false);
-    }
-  };
 
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -432,119 +651,120 @@ function TodoCard({
   };
 
   return (
-    <Card className="shadow-sm border border-gray-200">
-      <CardHeader className="pb-3">
-        <div className="flex items-start justify-between">
-          <CardTitle className="text-lg font-semibold text-gray-900 leading-tight">
-            {todo.title}
-          </CardTitle>
-          <div className="flex gap-2 ml-4">
-            <Dialog open={editOpen} onOpenChange={setEditOpen}>
+    <Dialog open={detailOpen} onOpenChange={setDetailOpen}>
+      <Card className="shadow-sm border border-gray-200">
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <CardTitle className="flex items-start gap-2 text-lg font-semibold text-gray-900 leading-tight">
+              <PriorityIcon priority={todo.priority ?? undefined} className="mt-1" />
+              <DialogTrigger asChild>
+                <button type="button" className="text-left"><Highlight text={todo.title} terms={highlight} /></button>
+              </DialogTrigger>
+              <RepeatIcon rule={recurrence} className="mt-1.5" />
+            </CardTitle>
+            {!readOnly && (
+            <div className="flex gap-2 ml-4">
               <DialogTrigger asChild>
                 <Button 
                   size="sm" 
                   variant="outline" 
                   className="h-8 w-8 p-0"
+                  aria-label="Open"
                 >
                   <Pencil className="h-4 w-4" />
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Edit Task</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleSave} className="space-y-4">
-                  <div>
-                    <Label htmlFor={`edit-title-${todo.id}`}>Title</Label>
-                    <Input 
-                      id={`edit-title-${todo.id}`}
-                      value={editTitle} 
-                      onChange={(e) => setEditTitle(e.target.value)} 
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor={`edit-desc-${todo.id}`}>Description</Label>
-                    <Textarea 
-                      id={`edit-desc-${todo.id}`}
-                      value={editDesc} 
-                      onChange={(e) => setEditDesc(e.target.value)} 
-                      rows={3}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor={`edit-links-${todo.id}`}>Links (comma separated)</Label>
-                    <Input 
-                      id={`edit-links-${todo.id}`}
-                      value={editLinks} 
-                      onChange={(e) => setEditLinks(e.target.value)} 
-                    />
-                  </div>
-                  <DialogFooter>
-                    <DialogClose asChild>
-                      <Button type="button" variant="outline">Cancel</Button>
-                    </DialogClose>
-                    <Button 
-                      type="submit" 
-                      className="bg-blue-600 hover:bg-blue-700"
-                      disabled={isEditing}
-                    >
-                      {isEditing ? (
-                        <>
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                          Saving...
-                        </>
-                      ) : (
-                        'Save Changes'
-                      )}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </DialogContent>
-            </Dialog>
-            <Button 
-              size="sm" 
-              variant="outline" 
-              className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
-              onClick={handleDelete}
-              disabled={isDeleting}
-            >
-              {isDeleting ? (
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
-              ) : (
-                <Trash2 className="h-4 w-4" />
-              )}
-            </Button>
-          </div>
-        </div>
-      </CardHeader>
-      <CardContent className="pt-0">
-        {todo.description && (
-          <p className="text-gray-700 text-sm mb-3 leading-relaxed">
-            {todo.description}
-          </p>
-        )}
-        {todo.links && todo.links.length > 0 && (
-          <div className="flex flex-wrap gap-2">
-            {todo.links.map((link, i) => (
-              <a
-                key={i}
-                href={link.href}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+              <Button 
+                size="sm" 
+                variant="outline" 
+                className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                onClick={handleDelete}
+                disabled={isDeleting}
               >
-                {link.label}
-              </a>
-            ))}
+                {isDeleting ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            )}
           </div>
-        )}
-        <div className="mt-3 pt-3 border-t border-gray-100">
-          <p className="text-xs text-gray-500">
-            Created {new Date(todo.created_at).toLocaleDateString()}
-          </p>
-        </div>
-      </CardContent>
-    </Card>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <LabelChips labels={labels} ids={todo.label_ids} className="mb-3" />
+          {todo.description && (
+            <Markdown source={todo.description} compact highlight={highlight} className="text-gray-700 text-sm mb-3 leading-relaxed max-h-32 overflow-hidden" />
+          )}
+          {todo.due_date && <DueChip date={todo.due_date} time={todo.due_time} className="mb-3" />}
+          <ChecklistProgress items={checklist} className="mb-3" />
+          {(comments.length > 0 || assigneeIds.length > 0) && (
+            <div className="mb-3 flex items-center gap-2">
+              <CommentCount count={comments.length} />
+              <AssigneeAvatars members={members} ids={assigneeIds} className="ml-auto" />
+            </div>
+          )}
+          {todo.links && todo.links.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {todo.links.filter(link => safeHref(link.href)).map((link, i) => (
+                <a
+                  key={i}
+                  href={safeHref(link.href)!}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                >
+                  {link.label}
+                </a>
+              ))}
+            </div>
+          )}
+          <div className="mt-3 pt-3 border-t border-gray-100">
+            <p className="text-xs text-gray-500">
+              Created {new Date(todo.created_at).toLocaleDateString()}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+      <DialogDrawer side="full">
+        <CardDetail
+          card={{
+            id: todo.id,
+            title: todo.title,
+            description: todo.description,
+            links: todo.links,
+            columnTitle,
+            createdAt: todo.created_at,
+            updatedAt: todo.updated_at,
+            dueDate: todo.due_date ?? undefined,
+            // Postgres returns HH:MM:SS
+            dueTime: todo.due_time?.slice(0, 5) ?? undefined,
+            labelIds: todo.label_ids ?? undefined,
+            priority: todo.priority ?? undefined,
+            assigneeIds,
+          }}
+          labels={labels}
+          members={members}
+          readOnly={readOnly}
+          onSave={async ({ dueDate, dueTime, labelIds, assigneeIds: nextAssignees = [], ...patch }) => {
+            await onEdit(todo.id, { ...patch, due_date: dueDate ?? null, due_time: dueTime ?? null, label_ids: labelIds ?? [] });
+            await assigneeActions.set(todo.id, nextAssignees);
+          }}
+          onDelete={() => onDelete(todo.id)}
+        >
+          <ChecklistEditor cardId={todo.id} items={checklist} readOnly={readOnly} actions={checklistActions} />
+          <RecurrenceEditor
+            cardId={todo.id}
+            dueDate={todo.due_date ?? undefined}
+            rule={recurrence}
+            columns={boardColumns}
+            readOnly={readOnly}
+            actions={recurrenceActions}
+          />
+          <CommentThread cardId={todo.id} comments={comments} userId={userId} canComment={!readOnly} actions={commentActions} />
+          <CardTimeline cardId={todo.id} labels={labels} />
+        </CardDetail>
+      </DialogDrawer>
+    </Dialog>
   );
 }
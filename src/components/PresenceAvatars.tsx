@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { avatarColor, initials, type Viewer } from "@/lib/presence";
+
+export function Avatar({ viewer, size = "md" }: { viewer: Viewer; size?: "sm" | "md" }) {
+  const dims = size === "sm" ? "h-5 w-5 text-[9px]" : "h-8 w-8 text-xs";
+  return (
+    <span
+      title={viewer.email}
+      className={`inline-flex items-center justify-center rounded-full font-semibold text-white ring-2 ring-white ${dims} ${avatarColor(viewer.userId)}`}
+    >
+      {initials(viewer.email)}
+    </span>
+  );
+}
+
+// Everyone currently looking at the board, overlapping like a stack
+export default function PresenceAvatars({ viewers, max = 5, className }: { viewers: Viewer[]; max?: number; className?: string }) {
+  if (viewers.length === 0) return null;
+  const shown = viewers.slice(0, max);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div className={`flex items-center -space-x-2 ${className ?? ""}`} aria-label={`${viewers.length} viewing`}>
+      {shown.map(v => (
+        <Avatar key={v.userId} viewer={v} />
+      ))}
+      {hidden > 0 && (
+        <span
+          title={viewers.slice(max).map(v => v.email).join(", ")}
+          className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-neutral-700 text-xs font-semibold text-white ring-2 ring-white"
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
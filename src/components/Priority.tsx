@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, SignalHigh, SignalLow, SignalMedium, type LucideIcon } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { PRIORITIES, PRIORITY_LABELS, type Priority } from "@/lib/priority";
+
+const PRIORITY_ICONS: Record<Exclude<Priority, "none">, { icon: LucideIcon; className: string }> = {
+  low: { icon: SignalLow, className: "text-neutral-500" },
+  medium: { icon: SignalMedium, className: "text-amber-600" },
+  high: { icon: SignalHigh, className: "text-orange-600" },
+  urgent: { icon: AlertTriangle, className: "text-red-600" },
+};
+
+// Nothing is shown for cards without a priority
+export function PriorityIcon({ priority, className }: { priority?: Priority; className?: string }) {
+  if (!priority || priority === "none") return null;
+  const { icon: Icon, className: color } = PRIORITY_ICONS[priority];
+  return (
+    <span title={`${PRIORITY_LABELS[priority]} priority`} className={`inline-flex shrink-0 ${color} ${className ?? ""}`}>
+      <Icon className="size-4" aria-label={`${PRIORITY_LABELS[priority]} priority`} />
+    </span>
+  );
+}
+
+// Priority select used by the add and edit forms
+export default function PrioritySelect({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: Priority;
+  onChange: (priority: Priority) => void;
+}) {
+  return (
+    <div>
+      <Label htmlFor={id}>Priority</Label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as Priority)}
+        className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm"
+      >
+        {PRIORITIES.map(p => (
+          <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Repeat } from "lucide-react";
+import type { RecurrenceActions } from "@/hooks/useRecurrences";
+import { describeRecurrence, RECURRENCE_KINDS, WEEKDAY_NAMES, type Recurrence, type RecurrenceKind, type RecurrenceRule } from "@/lib/recurrence";
+
+// Small repeat icon for card faces
+export function RepeatIcon({ rule, className }: { rule?: Recurrence; className?: string }) {
+  if (!rule) return null;
+  const description = describeRecurrence(rule);
+  return (
+    <span title={`Repeats: ${description}`} className={`inline-flex shrink-0 text-neutral-500 ${className ?? ""}`}>
+      <Repeat className="size-3.5" aria-label={`Repeats: ${description}`} />
+    </span>
+  );
+}
+
+const ruleOf = (rule?: Recurrence): RecurrenceRule | null =>
+  rule
+    ? { kind: rule.kind, weekdays: rule.weekdays, month_day: rule.month_day, interval_days: rule.interval_days, column_key: rule.column_key }
+    : null;
+
+// Only the fields the kind uses are stored
+function cleanRule(rule: RecurrenceRule): RecurrenceRule {
+  return {
+    kind: rule.kind,
+    weekdays: rule.kind === "weekly" ? rule.weekdays : [],
+    month_day: rule.kind === "monthly" ? rule.month_day : null,
+    interval_days: rule.kind === "after_done" ? rule.interval_days : null,
+    column_key: rule.column_key,
+  };
+}
+
+function ruleFor(kind: RecurrenceKind, base: RecurrenceRule | undefined, dueDate?: string): RecurrenceRule {
+  // New rules start from the card's due date (or today): its weekday, its day of the month
+  const day = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date();
+  return {
+    kind,
+    weekdays: base?.weekdays.length ? base.weekdays : [day.getDay()],
+    month_day: base?.month_day ?? day.getDate(),
+    interval_days: base?.interval_days ?? 7,
+    column_key: base?.column_key ?? null,
+  };
+}
+
+/**
+ * Repeat section of the card detail view. Like the checklist it saves on its own, with
+ * its own button, and sits inside the card form - so none of its buttons submit.
+ */
+export default function RecurrenceEditor({
+  cardId,
+  dueDate,
+  rule,
+  columns,
+  readOnly = false,
+  actions,
+}: {
+  cardId: string;
+  dueDate?: string;
+  rule?: Recurrence;
+  columns: { key: string; title: string }[];
+  readOnly?: boolean;
+  actions: RecurrenceActions;
+}) {
+  const [draft, setDraft] = React.useState<RecurrenceRule | null>(() => ruleOf(rule));
+  const [saving, setSaving] = React.useState(false);
+
+  // Follow changes made elsewhere (another editor, or the server moving the series on)
+  React.useEffect(() => {
+    setDraft(ruleOf(rule));
+  }, [rule]);
+
+  const dirty = JSON.stringify(draft && cleanRule(draft)) !== JSON.stringify(ruleOf(rule));
+  const valid =
+    !draft ||
+    ((draft.kind !== "weekly" || draft.weekdays.length > 0) &&
+      (draft.kind !== "monthly" || (!!draft.month_day && draft.month_day >= 1 && draft.month_day <= 31)) &&
+      (draft.kind !== "after_done" || (!!draft.interval_days && draft.interval_days >= 1)));
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      if (draft) await actions.set(cardId, cleanRule(draft), dueDate);
+      else await actions.clear(cardId);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleWeekday(day: number) {
+    if (!draft) return;
+    const weekdays = draft.weekdays.includes(day) ? draft.weekdays.filter(d => d !== day) : [...draft.weekdays, day].sort();
+    setDraft({ ...draft, weekdays });
+  }
+
+  const selectClass = "mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm";
+
+  return (
+    <section>
+      <h4 className="mb-2 flex items-center gap-1.5 text-sm font-medium">
+        <Repeat className="size-4" />
+        Repeat
+      </h4>
+      {readOnly ? (
+        <p className="text-sm text-neutral-600">{rule ? describeRecurrence(rule) : "Doesn't repeat"}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor={`repeat-kind-${cardId}`}>Repeats</Label>
+              <select
+                id={`repeat-kind-${cardId}`}
+                className={selectClass}
+                value={draft?.kind ?? ""}
+                onChange={(e) => setDraft(e.target.value ? ruleFor(e.target.value as RecurrenceKind, draft ?? undefined, dueDate) : null)}
+              >
+                <option value="">Doesn&apos;t repeat</option>
+                {(Object.keys(RECURRENCE_KINDS) as RecurrenceKind[]).map(kind => (
+                  <option key={kind} value={kind}>{RECURRENCE_KINDS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            {draft && (
+              <div>
+                <Label htmlFor={`repeat-col-${cardId}`}>New cards go to</Label>
+                <select
+                  id={`repeat-col-${cardId}`}
+                  className={selectClass}
+                  value={draft.column_key && columns.some(c => c.key === draft.column_key) ? draft.column_key : ""}
+                  onChange={(e) => setDraft({ ...draft, column_key: e.target.value || null })}
+                >
+                  <option value="">First column</option>
+                  {columns.map(col => (
+                    <option key={col.key} value={col.key}>{col.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {draft?.kind === "weekly" && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Weekdays">
+              {WEEKDAY_NAMES.map((name, day) => (
+                <Button
+                  key={name}
+                  type="button"
+                  size="sm"
+                  variant={draft.weekdays.includes(day) ? "default" : "outline"}
+                  aria-pressed={draft.weekdays.includes(day)}
+                  aria-label={name}
+                  className="h-8 w-10 px-0"
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {name.slice(0, 2)}
+                </Button>
+              ))}
+            </div>
+          )}
+          {draft?.kind === "monthly" && (
+            <div className="flex items-center gap-2 text-sm">
+              <Label htmlFor={`repeat-day-${cardId}`}>On day</Label>
+              <Input
+                id={`repeat-day-${cardId}`}
+                type="number"
+                min={1}
+                max={31}
+                className="w-20"
+                value={draft.month_day ?? ""}
+                onChange={(e) => setDraft({ ...draft, month_day: e.target.value ? Number(e.target.value) : null })}
+                onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+              />
+              <span className="text-xs text-neutral-500">Shorter months use their last day</span>
+            </div>
+          )}
+          {draft?.kind === "after_done" && (
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                id={`repeat-interval-${cardId}`}
+                aria-label="Days after completion"
+                type="number"
+                min={1}
+                className="w-20"
+                value={draft.interval_days ?? ""}
+                onChange={(e) => setDraft({ ...draft, interval_days: e.target.value ? Number(e.target.value) : null })}
+                onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+              />
+              <span>days after this card is moved to the last column</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-xs text-neutral-500">
+              {rule?.next_on
+                ? `Next card on ${new Date(`${rule.next_on}T00:00:00`).toLocaleDateString()}, or as soon as this one is done`
+                : draft?.kind === "after_done"
+                  ? "The next card is made when this one reaches the last column"
+                  : draft
+                    ? "The next card is made on schedule, or as soon as this one reaches the last column"
+                    : null}
+            </p>
+            {dirty && (
+              <Button type="button" size="sm" disabled={!valid || saving} onClick={() => void handleSave()}>
+                {draft ? "Save repeat" : "Stop repeating"}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
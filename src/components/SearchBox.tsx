@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+
+const HELP = [
+  "Matches titles, descriptions and link URLs.",
+  "col:doing - cards in a column (col:\"in review\" for titles with spaces)",
+  "has:link, has:description, has:due, has:labels",
+  "created:<7d - created in the last 7 days; updated:>30d - not updated for 30 days (h, d, w)",
+].join("\n");
+
+export default function SearchBox({
+  value,
+  onChange,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}) {
+  return (
+    <div className={`relative ${className ?? ""}`}>
+      <Search className="pointer-events-none absolute left-3 top-1/2 size-4 -translate-y-1/2 text-neutral-400" />
+      <Input
+        type="search"
+        aria-label="Search cards"
+        title={HELP}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => { if (e.key === "Escape" && value) { e.preventDefault(); onChange(""); } }}
+        placeholder="Search... col: has:link created:<7d"
+        className="h-10 bg-white pl-9 pr-8 [&::-webkit-search-cancel-button]:hidden"
+      />
+      {value && (
+        <button
+          type="button"
+          aria-label="Clear search"
+          onClick={() => onChange("")}
+          className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-neutral-400 hover:text-neutral-700"
+        >
+          <X className="size-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LayoutTemplate, Pencil, Trash2 } from "lucide-react";
+import { applyTemplate, fillPlaceholders, PLACEHOLDER_HELP, type CardTemplate, type TemplateFields } from "@/lib/templates";
+import type { LabelDef } from "@/lib/labels";
+import { parseLinks } from "@/lib/markdown";
+import type { TemplateActions, TemplateInput } from "@/hooks/useTemplates";
+import { LabelPicker } from "@/components/Labels";
+import PrioritySelect from "@/components/Priority";
+
+const EMPTY_TEMPLATE: TemplateInput = {
+  name: "",
+  title: "",
+  description: null,
+  links: [],
+  column_key: null,
+  priority: "none",
+  label_ids: [],
+};
+
+// "From template" select at the top of the add forms; picking one fills the form in
+export function TemplatePicker({
+  id,
+  templates,
+  onApply,
+}: {
+  id: string;
+  templates: CardTemplate[];
+  onApply: (fields: TemplateFields) => void;
+}) {
+  const [selected, setSelected] = React.useState("");
+  if (templates.length === 0) return null;
+
+  return (
+    <div>
+      <Label htmlFor={id}>From template</Label>
+      <select
+        id={id}
+        className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm"
+        value={selected}
+        onChange={(e) => {
+          setSelected(e.target.value);
+          const template = templates.find(t => t.id === e.target.value);
+          if (template) onApply(applyTemplate(template));
+        }}
+      >
+        <option value="">Blank card</option>
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>{template.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default function TemplatesDialog({
+  templates,
+  columns,
+  labels,
+  actions,
+}: {
+  templates: CardTemplate[];
+  columns: { key: string; title: string }[];
+  labels: LabelDef[];
+  actions: TemplateActions;
+}) {
+  // A template id, "new" for the add form, or null when nothing is being edited
+  const [editing, setEditing] = React.useState<string | null>(null);
+
+  return (
+    <Dialog onOpenChange={(open) => { if (!open) setEditing(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-10 px-4">
+          <LayoutTemplate />
+          Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Card templates</DialogTitle>
+          <DialogDescription>
+            Templates pre-fill the Add Task form for cards this board makes again and again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+          {templates.length === 0 && editing !== "new" && <p className="text-sm text-neutral-500">No templates yet.</p>}
+          {templates.map(template =>
+            editing === template.id ? (
+              <TemplateEditor
+                key={template.id}
+                initial={template}
+                columns={columns}
+                labels={labels}
+                submitLabel="Save"
+                onSubmit={(input) => { void actions.update(template.id, input); setEditing(null); }}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <TemplateRow
+                key={template.id}
+                template={template}
+                columnTitle={columns.find(c => c.key === template.column_key)?.title}
+                onEdit={() => setEditing(template.id)}
+                onDelete={() => void actions.remove(template.id)}
+              />
+            )
+          )}
+          {editing === "new" && (
+            <TemplateEditor
+              initial={EMPTY_TEMPLATE}
+              columns={columns}
+              labels={labels}
+              submitLabel="Add"
+              onSubmit={(input) => { void actions.add(input); setEditing(null); }}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </div>
+        <DialogFooter>
+          {editing === null && (
+            <Button type="button" variant="outline" onClick={() => setEditing("new")}>New template</Button>
+          )}
+          <DialogClose asChild>
+            <Button type="button" variant="ghost">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TemplateRow({
+  template,
+  columnTitle,
+  onEdit,
+  onDelete,
+}: {
+  template: CardTemplate;
+  columnTitle?: string;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const [confirming, setConfirming] = React.useState(false);
+
+  return (
+    <div className="rounded-lg border border-neutral-200 p-2">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium">{template.name}</p>
+          <p className="truncate text-xs text-neutral-500">
+            {/* A preview of what today's card would be called */}
+            {fillPlaceholders(template.title) || "No title"}
+            {columnTitle && ` · ${columnTitle}`}
+          </p>
+        </div>
+        <Button size="iconXs" variant="outline" aria-label={`Edit ${template.name}`} onClick={onEdit}>
+          <Pencil className="size-3" />
+        </Button>
+        <Button size="iconXs" variant="destructive" aria-label={`Delete ${template.name}`} onClick={() => setConfirming(true)}>
+          <Trash2 className="size-3" />
+        </Button>
+      </div>
+      {confirming && (
+        <div className="mt-2 flex items-center gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+          <span>Delete the &quot;{template.name}&quot; template? Cards made from it stay.</span>
+          <div className="ml-auto flex gap-1">
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => setConfirming(false)}>Cancel</Button>
+            <Button size="sm" variant="destructive" className="h-7" onClick={() => { setConfirming(false); onDelete(); }}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TemplateEditor({
+  initial,
+  columns,
+  labels,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: TemplateInput;
+  columns: { key: string; title: string }[];
+  labels: LabelDef[];
+  submitLabel: string;
+  onSubmit: (input: TemplateInput) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = React.useState(initial.name);
+  const [title, setTitle] = React.useState(initial.title);
+  const [description, setDescription] = React.useState(initial.description ?? "");
+  const [links, setLinks] = React.useState(initial.links.map(l => l.href).join(", "));
+  // A column that has since been deleted falls back to the first one, like an empty choice
+  const [columnKey, setColumnKey] = React.useState(
+    columns.some(c => c.key === initial.column_key) ? initial.column_key ?? "" : ""
+  );
+  const [priority, setPriority] = React.useState(initial.priority);
+  const [labelIds, setLabelIds] = React.useState(initial.label_ids);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      title: title.trim(),
+      description: description || null,
+      links: parseLinks(links),
+      column_key: columnKey || null,
+      priority,
+      label_ids: labelIds,
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-neutral-200 p-3">
+      <div>
+        <Label htmlFor="template-name">Template name</Label>
+        <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Weekly review" required autoFocus />
+      </div>
+      <div>
+        <Label htmlFor="template-title">Card title</Label>
+        <Input id="template-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Weekly review {date}" />
+      </div>
+      <div>
+        <Label htmlFor="template-desc">Description</Label>
+        <Textarea id="template-desc" value={description} onChange={(e) => setDescription(e.target.value)} rows={4} />
+      </div>
+      <div>
+        <Label htmlFor="template-links">Links (comma separated)</Label>
+        <Input id="template-links" placeholder="https://... , https://..." value={links} onChange={(e) => setLinks(e.target.value)} />
+      </div>
+      <p className="text-xs text-neutral-500">{PLACEHOLDER_HELP}</p>
+      <div>
+        <Label htmlFor="template-col">Column</Label>
+        <select
+          id="template-col"
+          className="mt-1 h-9 w-full rounded-md border border-neutral-200 bg-white px-3 text-sm shadow-sm"
+          value={columnKey}
+          onChange={(e) => setColumnKey(e.target.value)}
+        >
+          <option value="">First column</option>
+          {columns.map(col => (
+            <option key={col.key} value={col.key}>{col.title}</option>
+          ))}
+        </select>
+      </div>
+      <PrioritySelect id="template-priority" value={priority} onChange={setPriority} />
+      <div>
+        <Label>Labels</Label>
+        <div className="mt-1">
+          <LabelPicker labels={labels} selected={labelIds} onChange={setLabelIds} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={!name.trim()}>{submitLabel}</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { useSession } from "@/hooks/useSession";
+import { clearWriteQueue, countOwnWrites, flushWriteQueue } from "@/lib/writeQueue";
+
+export default function UserMenu({ className }: { className?: string }) {
+  const router = useRouter();
+  const { user } = useSession();
+  const [signingOut, setSigningOut] = React.useState(false);
+  // Changes that couldn't be sent before signing out; signing out anyway drops them
+  const [unsynced, setUnsynced] = React.useState(0);
+
+  async function handleSignOut(discard = false) {
+    setSigningOut(true);
+    if (!discard) {
+      // Send what we can while this session can still write it
+      await flushWriteQueue();
+      const left = await countOwnWrites();
+      if (left > 0) {
+        setUnsynced(left);
+        setSigningOut(false);
+        return;
+      }
+    }
+    // The queue is per browser, so the next account must not inherit it
+    await clearWriteQueue();
+    setUnsynced(0);
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error("Error signing out:", error);
+      setSigningOut(false);
+      return;
+    }
+    router.replace("/login");
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ""}`}>
+      <span className="text-xs truncate max-w-[180px]" title={user.email}>{user.email}</span>
+      {unsynced > 0 ? (
+        <>
+          <span className="text-xs text-red-400">
+            {unsynced} unsynced {unsynced === 1 ? "change" : "changes"} will be lost
+          </span>
+          <Button size="sm" variant="ghost" className="h-8" onClick={() => setUnsynced(0)}>Cancel</Button>
+          <Button size="sm" variant="destructive" className="h-8" onClick={() => void handleSignOut(true)} disabled={signingOut}>
+            Sign out anyway
+          </Button>
+        </>
+      ) : (
+        <Button size="sm" variant="outline" className="h-8" onClick={() => void handleSignOut()} disabled={signingOut}>
+          <LogOut className="h-4 w-4" />
+          Sign out
+        </Button>
+      )}
+    </div>
+  );
+}
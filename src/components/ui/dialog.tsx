@@ -42,6 +42,36 @@ export function DialogTrigger({ asChild, children }: { asChild?: boolean; childr
   return asChild ? React.cloneElement(child, props) : <button {...props}>{children}</button>;
 }
 
+// The dialog box itself, mounted only while open. Escape closes it; it takes focus when it
+// opens and hands it back to whatever had it (usually the trigger) when it closes.
+function DialogPanel({ className, children }: { className?: string; children: React.ReactNode }) {
+  const { setOpen } = React.useContext(DialogContext)!;
+  const panelRef = React.useRef<HTMLDivElement>(null);
+  // Read on the first render, before anything inside can take focus
+  const [returnFocus] = React.useState(() => document.activeElement as HTMLElement | null);
+
+  React.useEffect(() => {
+    if (!panelRef.current?.contains(document.activeElement)) panelRef.current?.focus();
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus();
+    };
+  }, [returnFocus]);
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [setOpen]);
+
+  return (
+    <div ref={panelRef} role="dialog" aria-modal="true" tabIndex={-1} className={cn("outline-none", className)}>
+      {children}
+    </div>
+  );
+}
+
 export function DialogContent({ className, children }: { className?: string; children: React.ReactNode }) {
   const ctx = React.useContext(DialogContext)!;
   const [mounted, setMounted] = React.useState(false);
@@ -51,9 +81,38 @@ export function DialogContent({ className, children }: { className?: string; chi
   return createPortal(
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="absolute inset-0 bg-black/50" onClick={() => ctx.setOpen(false)} />
-      <div className={cn("relative z-10 w-full max-w-lg rounded-xl border border-black/10 bg-white p-6 shadow-xl", className)}>
+      <DialogPanel className={cn("relative z-10 w-full max-w-lg rounded-xl border border-black/10 bg-white p-6 shadow-xl", className)}>
+        {children}
+      </DialogPanel>
+    </div>,
+    document.body
+  );
+}
+
+// Same dialog, docked to the right edge (desktop drawer) or covering the screen (mobile sheet)
+export function DialogDrawer({ side = "right", className, children }: {
+  side?: "right" | "full";
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const ctx = React.useContext(DialogContext)!;
+  const [mounted, setMounted] = React.useState(false);
+  React.useEffect(() => setMounted(true), []);
+  const { open, setOpen } = ctx;
+  if (!mounted) return null;
+  if (!open) return null;
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex justify-end">
+      {side === "right" && <div className="absolute inset-0 bg-black/40" onClick={() => setOpen(false)} />}
+      <DialogPanel
+        className={cn(
+          "relative z-10 flex h-full flex-col overflow-y-auto bg-white shadow-2xl",
+          side === "right" ? "w-full max-w-xl border-l border-black/10 p-6" : "w-full p-4",
+          className
+        )}
+      >
         {children}
-      </div>
+      </DialogPanel>
     </div>,
     document.body
   );
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { applyQueuedWrites } from "@/lib/writeQueue";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+
+// A row of board_members - everyone who can be put on a card
+export type BoardMember = { id: string; board_id: string; email: string; user_id: string | null };
+
+export type Assignment = { id: string; card_id: string; board_id: string; member_id: string };
+
+export type AssigneeActions = {
+  // Make memberIds the card's assignees, adding and removing rows as needed
+  set: (cardId: string, memberIds: string[]) => Promise<boolean>;
+};
+
+const TABLE = "kanban_card_assignees";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function rowToMember(row: any): BoardMember {
+  return { id: String(row.id), board_id: String(row.board_id), email: row.email, user_id: row.user_id ?? null };
+}
+
+const ASSIGNMENTS: BoardTable<Assignment> = {
+  table: TABLE,
+  select: "id, card_id, board_id, member_id",
+  noun: "assignees",
+};
+
+/**
+ * The board's members and who is assigned to which card, kept in sync over realtime.
+ * Assignment changes are optimistic, go through the offline write queue, and are rolled
+ * back on failure.
+ */
+export function useAssignees(boardId: string, onError: (message: string) => void) {
+  const [members, setMembers] = useState<BoardMember[]>([]);
+  const { rows: assignments, rowsRef: assignmentsRef, run } = useBoardTable(ASSIGNMENTS, boardId, onError);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMembers = async () => {
+      const { data, error } = await supabase
+        .from("board_members")
+        .select("id, board_id, email, user_id")
+        .eq("board_id", boardId)
+        .order("created_at", { ascending: true });
+      if (error) {
+        console.error("Error fetching members:", error);
+        return;
+      }
+      const rows = await applyQueuedWrites("board_members", (data || []).map(rowToMember), { board_id: boardId });
+      if (!cancelled) setMembers(rows);
+    };
+
+    fetchMembers();
+
+    const subscription = supabase
+      .channel(`board_members_changes:${boardId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'board_members', filter: `board_id=eq.${boardId}` },
+        () => {
+          // Invites and sign-ups (user_id filled in); refetching keeps the list in order
+          fetchMembers();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'board_members' },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (payload: any) => {
+          if (payload.old) setMembers(prev => prev.filter(m => m.id !== String(payload.old.id)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [boardId]);
+
+  // Member ids per card, in member-list order
+  const byCard = useMemo(() => {
+    const order = new Map(members.map((m, i) => [m.id, i]));
+    const result: Record<string, string[]> = {};
+    for (const a of assignments) {
+      (result[a.card_id] ??= []).push(a.member_id);
+    }
+    for (const ids of Object.values(result)) {
+      ids.sort((a, b) => (order.get(a) ?? Infinity) - (order.get(b) ?? Infinity));
+    }
+    return result;
+  }, [assignments, members]);
+
+  const actions: AssigneeActions = useMemo(() => ({
+    set: async (cardId, memberIds) => {
+      const current = assignmentsRef.current.filter(a => a.card_id === cardId);
+      const removed = current.filter(a => !memberIds.includes(a.member_id));
+      const added: Assignment[] = memberIds
+        .filter(id => !current.some(a => a.member_id === id))
+        .map(memberId => ({ id: crypto.randomUUID(), card_id: cardId, board_id: boardId, member_id: memberId }));
+
+      const results = await Promise.all([
+        ...removed.map(a => run(
+          { table: TABLE, action: "delete", rowId: a.id },
+          prev => prev.filter(x => x.id !== a.id),
+          prev => [...prev, a],
+          "Failed to unassign card"
+        )),
+        ...added.map(a => run(
+          { table: TABLE, action: "insert", rowId: a.id, values: a },
+          prev => [...prev, a],
+          prev => prev.filter(x => x.id !== a.id),
+          "Failed to assign card"
+        )),
+      ]);
+      return results.every(Boolean);
+    },
+  }), [boardId, run, assignmentsRef]);
+
+  return { members, byCard, actions };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+export type BoardRole = "owner" | "editor" | "viewer";
+
+// The signed-in user's role on a board. Null while loading or without access,
+// which callers treat as read-only; row-level security enforces the same rules.
+export function useBoardRole(boardId: string) {
+  const [role, setRole] = useState<BoardRole | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRole = async () => {
+      const { data, error } = await supabase.rpc("board_role", { p_board_id: boardId });
+      if (error) {
+        console.error("Error fetching board role:", error);
+        return;
+      }
+      if (!cancelled) setRole((data as BoardRole | null) ?? null);
+    };
+
+    fetchRole();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  return {
+    role,
+    canEdit: role === "owner" || role === "editor",
+    canManage: role === "owner",
+  };
+}
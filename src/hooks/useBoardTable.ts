@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { applyQueuedWrites, enqueueWrite, type NewWrite } from "@/lib/writeQueue";
+
+type Row = { id: string; updated_at?: string };
+
+// What a per-board table hook declares; keep it at module level so the subscription stays put
+export type BoardTable<T extends Row> = {
+  table: string;
+  select: string;
+  // Plural, for the console: "Error fetching labels"
+  noun: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fromRow?: (row: any) => T;
+  // Applied on every change, for hooks that hand out the rows in order
+  sort?: (rows: T[]) => T[];
+  // Rows carry updated_at, and realtime may deliver quick edits out of order
+  versioned?: boolean;
+};
+
+function upsertRow<T extends Row>(rows: T[], incoming: T, versioned?: boolean): T[] {
+  const current = rows.find(r => r.id === incoming.id);
+  if (!current) return [...rows, incoming];
+  if (versioned && Date.parse(incoming.updated_at ?? "") < Date.parse(current.updated_at ?? "")) return rows;
+  return rows.map(r => (r.id === incoming.id ? incoming : r));
+}
+
+function inOrder<T extends Row>(config: BoardTable<T>, rows: T[]) {
+  return config.sort ? config.sort(rows) : rows;
+}
+
+/**
+ * The rows of one board-scoped table, kept in sync over realtime. `run` makes a change
+ * optimistically, sends it through the offline write queue, and reverts it and reports
+ * through onError if that fails. Hooks built on it only add their row shape and actions.
+ */
+export function useBoardTable<T extends Row>(config: BoardTable<T>, boardId: string, onError: (message: string) => void) {
+  const [rows, setRows] = useState<T[]>([]);
+  const rowsRef = useRef(rows);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    rowsRef.current = rows;
+  }, [rows]);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  useEffect(() => {
+    const { select, noun, fromRow = (row) => row as T, versioned } = config;
+    let cancelled = false;
+
+    const fetchRows = async () => {
+      const { data, error } = await supabase.from(config.table).select(select).eq("board_id", boardId);
+      if (error) {
+        console.error(`Error fetching ${noun}:`, error);
+        return;
+      }
+      const result = await applyQueuedWrites(config.table, (data || []).map(fromRow), { board_id: boardId });
+      if (!cancelled) setRows(inOrder(config, result));
+    };
+
+    fetchRows();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const upsert = (payload: any) => {
+      if (payload.new) setRows(prev => inOrder(config, upsertRow(prev, fromRow(payload.new), versioned)));
+    };
+
+    const subscription = supabase
+      .channel(`${config.table}_changes:${boardId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: config.table, filter: `board_id=eq.${boardId}` }, upsert)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: config.table, filter: `board_id=eq.${boardId}` }, upsert)
+      .on(
+        'postgres_changes',
+        // Unfiltered like card deletes: the old row only carries its id, and ids from other boards match nothing
+        { event: 'DELETE', schema: 'public', table: config.table },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (payload: any) => {
+          if (payload.old) setRows(prev => prev.filter(r => r.id !== String(payload.old.id)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [config, boardId]);
+
+  const reportError = useCallback((message: string) => onErrorRef.current(message), []);
+
+  const run = useCallback(async (
+    write: NewWrite | NewWrite[],
+    apply: (prev: T[]) => T[],
+    revert: (prev: T[]) => T[],
+    failure: string
+  ) => {
+    setRows(prev => inOrder(config, apply(prev)));
+    const results = await Promise.all((Array.isArray(write) ? write : [write]).map(w => enqueueWrite(w)));
+    const error = results.find(r => r.error)?.error;
+    if (error) {
+      console.error(`${failure}:`, error);
+      onErrorRef.current(`${failure}: ${error.message}`);
+      setRows(prev => inOrder(config, revert(prev)));
+      return false;
+    }
+    return true;
+  }, [config]);
+
+  return { rows, rowsRef, run, reportError };
+}
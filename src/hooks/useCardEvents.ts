@@ -0,0 +1,61 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { applyQueuedWrites } from "@/lib/writeQueue";
+import type { CardEvent } from "@/lib/cardEvents";
+
+const TABLE = "kanban_card_events";
+
+/**
+ * One card's history, newest first. Only loaded while the card's detail view is open,
+ * and kept live over realtime while it is.
+ */
+export function useCardEvents(cardId: string) {
+  const [events, setEvents] = useState<CardEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEvents = async () => {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("id, card_id, board_id, kind, changes, from_column, to_column, actor_id, actor_email, created_at")
+        .eq("card_id", cardId)
+        .order("created_at", { ascending: false });
+      if (error) {
+        console.error("Error fetching card history:", error);
+      } else {
+        // Events still waiting in the offline queue show up too
+        const rows = await applyQueuedWrites(TABLE, (data || []) as CardEvent[], { card_id: cardId });
+        if (!cancelled) setEvents(rows.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    fetchEvents();
+
+    const subscription = supabase
+      .channel(`kanban_card_events_changes:${cardId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: TABLE, filter: `card_id=eq.${cardId}` },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (payload: any) => {
+          if (!payload.new) return;
+          const event = payload.new as CardEvent;
+          // Replaces the queued copy of our own events with the stored one
+          setEvents(prev => [event, ...prev.filter(e => e.id !== event.id)].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [cardId]);
+
+  return { events, loading };
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo } from "react";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { compareRanks, rankBetween } from "@/lib/rank";
+
+export type ChecklistItem = {
+  id: string;
+  card_id: string;
+  board_id: string;
+  text: string;
+  done: boolean;
+  rank: string;
+  updated_at: string;
+};
+
+export type ChecklistActions = {
+  add: (cardId: string, text: string) => Promise<boolean>;
+  toggle: (item: ChecklistItem) => Promise<boolean>;
+  rename: (item: ChecklistItem, text: string) => Promise<boolean>;
+  move: (item: ChecklistItem, direction: -1 | 1) => Promise<boolean>;
+  remove: (item: ChecklistItem) => Promise<boolean>;
+  // Put back items removed along with their card (undoing a card delete)
+  restore: (items: ChecklistItem[]) => Promise<boolean>;
+};
+
+const TABLE = "kanban_checklist_items";
+
+function sortItems(items: ChecklistItem[]) {
+  return [...items].sort((a, b) => compareRanks(a.rank, b.rank));
+}
+
+function replace(item: ChecklistItem) {
+  return (prev: ChecklistItem[]) => prev.map(i => (i.id === item.id ? item : i));
+}
+
+const CHECKLISTS: BoardTable<ChecklistItem> = {
+  table: TABLE,
+  select: "id, card_id, board_id, text, done, rank, updated_at",
+  noun: "checklists",
+  // Quick toggles can come back over realtime out of order
+  versioned: true,
+};
+
+/**
+ * Checklist items for every card on a board, kept in sync over realtime. Changes are
+ * optimistic and go through the offline write queue; failures are rolled back and
+ * reported through onError.
+ */
+export function useChecklists(boardId: string, onError: (message: string) => void) {
+  const { rows: items, rowsRef: itemsRef, run } = useBoardTable(CHECKLISTS, boardId, onError);
+
+  const byCard = useMemo(() => {
+    const result: Record<string, ChecklistItem[]> = {};
+    for (const item of sortItems(items)) {
+      (result[item.card_id] ??= []).push(item);
+    }
+    return result;
+  }, [items]);
+
+  const actions: ChecklistActions = useMemo(() => ({
+    add: (cardId, text) => {
+      const siblings = sortItems(itemsRef.current.filter(i => i.card_id === cardId));
+      const item: ChecklistItem = {
+        id: crypto.randomUUID(),
+        card_id: cardId,
+        board_id: boardId,
+        text,
+        done: false,
+        rank: rankBetween(siblings[siblings.length - 1]?.rank ?? null, null),
+        updated_at: new Date().toISOString(),
+      };
+      return run(
+        { table: TABLE, action: "insert", rowId: item.id, values: item },
+        prev => [...prev, item],
+        prev => prev.filter(i => i.id !== item.id),
+        "Failed to add checklist item"
+      );
+    },
+    toggle: (item) => {
+      const updated = { ...item, done: !item.done, updated_at: new Date().toISOString() };
+      return run(
+        { table: TABLE, action: "update", rowId: item.id, values: { done: updated.done, updated_at: updated.updated_at } },
+        replace(updated),
+        replace(item),
+        "Failed to update checklist item"
+      );
+    },
+    rename: (item, text) => {
+      const updated = { ...item, text, updated_at: new Date().toISOString() };
+      return run(
+        { table: TABLE, action: "update", rowId: item.id, values: { text, updated_at: updated.updated_at } },
+        replace(updated),
+        replace(item),
+        "Failed to rename checklist item"
+      );
+    },
+    move: async (item, direction) => {
+      const siblings = sortItems(itemsRef.current.filter(i => i.card_id === item.card_id));
+      const index = siblings.findIndex(i => i.id === item.id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= siblings.length) return false;
+      // Land on the far side of the neighbour being passed
+      const [before, after] = direction === -1
+        ? [siblings[target - 1]?.rank ?? null, siblings[target].rank]
+        : [siblings[target].rank, siblings[target + 1]?.rank ?? null];
+      const updated = { ...item, rank: rankBetween(before, after), updated_at: new Date().toISOString() };
+      return run(
+        { table: TABLE, action: "update", rowId: item.id, values: { rank: updated.rank, updated_at: updated.updated_at } },
+        replace(updated),
+        replace(item),
+        "Failed to reorder checklist"
+      );
+    },
+    remove: (item) => run(
+      { table: TABLE, action: "delete", rowId: item.id },
+      prev => prev.filter(i => i.id !== item.id),
+      prev => [...prev, item],
+      "Failed to delete checklist item"
+    ),
+    restore: async (restored) => {
+      const results = await Promise.all(restored.map(item => run(
+        { table: TABLE, action: "insert", rowId: item.id, values: item },
+        prev => (prev.some(i => i.id === item.id) ? prev : [...prev, item]),
+        prev => prev.filter(i => i.id !== item.id),
+        "Failed to restore checklist item"
+      )));
+      return results.every(Boolean);
+    },
+  }), [boardId, run, itemsRef]);
+
+  return { byCard, actions };
+}
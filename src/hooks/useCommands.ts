@@ -0,0 +1,36 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef } from "react";
+import type { Command } from "@/lib/commands";
+
+export type CommandRegistry = {
+  // Returns the function that takes the source back out
+  register: (getCommands: () => Command[]) => () => void;
+  open: () => void;
+};
+
+export const CommandRegistryContext = createContext<CommandRegistry | null>(null);
+
+/**
+ * Offer commands to the palette while the calling component is mounted. The getter runs
+ * each time the palette opens, so it always sees the latest state. Does nothing outside
+ * a CommandPaletteProvider (the mobile list has no palette).
+ */
+export function useRegisterCommands(getCommands: () => Command[]) {
+  const registry = useContext(CommandRegistryContext);
+  const getterRef = useRef(getCommands);
+
+  useEffect(() => {
+    getterRef.current = getCommands;
+  });
+
+  useEffect(() => {
+    if (!registry) return;
+    return registry.register(() => getterRef.current());
+  }, [registry]);
+}
+
+// Opens the palette, for buttons that advertise it; undefined without a provider
+export function useCommandPalette() {
+  return useContext(CommandRegistryContext)?.open;
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef, useMemo } from "react";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { useSession } from "@/hooks/useSession";
+
+export type CardComment = {
+  id: string;
+  card_id: string;
+  board_id: string;
+  author_id: string;
+  author_email: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CommentActions = {
+  add: (cardId: string, body: string) => Promise<boolean>;
+  // Authors only; the database rejects anyone else's edits
+  edit: (comment: CardComment, body: string) => Promise<boolean>;
+  remove: (comment: CardComment) => Promise<boolean>;
+};
+
+const TABLE = "kanban_card_comments";
+
+function replace(comment: CardComment) {
+  return (prev: CardComment[]) => prev.map(c => (c.id === comment.id ? comment : c));
+}
+
+const COMMENTS: BoardTable<CardComment> = {
+  table: TABLE,
+  select: "id, card_id, board_id, author_id, author_email, body, created_at, updated_at",
+  noun: "comments",
+  // Quick edits can come back over realtime out of order
+  versioned: true,
+};
+
+/**
+ * Comment threads for every card on a board, kept in sync over realtime. Changes are
+ * optimistic and go through the offline write queue; failures are rolled back and
+ * reported through onError.
+ */
+export function useComments(boardId: string, onError: (message: string) => void) {
+  const { user } = useSession();
+  const { rows: comments, run } = useBoardTable(COMMENTS, boardId, onError);
+  const userRef = useRef(user);
+
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  // Oldest first, like a conversation
+  const byCard = useMemo(() => {
+    const result: Record<string, CardComment[]> = {};
+    const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const comment of sorted) {
+      (result[comment.card_id] ??= []).push(comment);
+    }
+    return result;
+  }, [comments]);
+
+  const actions: CommentActions = useMemo(() => ({
+    add: (cardId, body) => {
+      const author = userRef.current;
+      if (!author) return Promise.resolve(false);
+      const now = new Date().toISOString();
+      const comment: CardComment = {
+        id: crypto.randomUUID(),
+        card_id: cardId,
+        board_id: boardId,
+        author_id: author.id,
+        author_email: author.email ?? "",
+        body,
+        created_at: now,
+        updated_at: now,
+      };
+      return run(
+        { table: TABLE, action: "insert", rowId: comment.id, values: comment },
+        prev => [...prev, comment],
+        prev => prev.filter(c => c.id !== comment.id),
+        "Failed to add comment"
+      );
+    },
+    edit: (comment, body) => {
+      const updated = { ...comment, body, updated_at: new Date().toISOString() };
+      return run(
+        { table: TABLE, action: "update", rowId: comment.id, values: { body, updated_at: updated.updated_at } },
+        replace(updated),
+        replace(comment),
+        "Failed to edit comment"
+      );
+    },
+    remove: (comment) => run(
+      { table: TABLE, action: "delete", rowId: comment.id },
+      prev => prev.filter(c => c.id !== comment.id),
+      prev => [...prev, comment],
+      "Failed to delete comment"
+    ),
+  }), [boardId, run]);
+
+  return { byCard, actions, userId: user?.id ?? null };
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useMemo } from "react";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { rowToLabel, type LabelColor, type LabelDef } from "@/lib/labels";
+
+export type LabelActions = {
+  add: (name: string, color: LabelColor) => Promise<boolean>;
+  update: (id: string, patch: Partial<Pick<LabelDef, "name" | "color">>) => Promise<boolean>;
+  remove: (id: string) => Promise<boolean>;
+};
+
+const TABLE = "kanban_labels";
+
+function sortLabels(labels: LabelDef[]) {
+  return [...labels].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+const LABELS: BoardTable<LabelDef> = {
+  table: TABLE,
+  select: "id, board_id, name, color, position",
+  noun: "labels",
+  fromRow: rowToLabel,
+  sort: sortLabels,
+};
+
+/**
+ * A board's labels, kept in sync over realtime. Changes are optimistic, go through the
+ * offline write queue, and are rolled back on failure.
+ */
+export function useLabels(boardId: string, onError: (message: string) => void) {
+  const { rows: labels, rowsRef: labelsRef, run } = useBoardTable(LABELS, boardId, onError);
+
+  const actions: LabelActions = useMemo(() => ({
+    add: (name, color) => {
+      const label: LabelDef = {
+        id: crypto.randomUUID(),
+        board_id: boardId,
+        name,
+        color,
+        position: labelsRef.current.reduce((max, l) => Math.max(max, l.position), -1) + 1,
+      };
+      return run(
+        { table: TABLE, action: "insert", rowId: label.id, values: label },
+        prev => [...prev, label],
+        prev => prev.filter(l => l.id !== label.id),
+        "Failed to add label"
+      );
+    },
+    update: (id, patch) => {
+      const previous = labelsRef.current.find(l => l.id === id);
+      if (!previous) return Promise.resolve(false);
+      return run(
+        { table: TABLE, action: "update", rowId: id, values: patch },
+        prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)),
+        prev => prev.map(l => (l.id === id ? previous : l)),
+        "Failed to update label"
+      );
+    },
+    remove: (id) => {
+      const previous = labelsRef.current.find(l => l.id === id);
+      if (!previous) return Promise.resolve(false);
+      // The database takes the label off its cards; those updates arrive over realtime
+      return run(
+        { table: TABLE, action: "delete", rowId: id },
+        prev => prev.filter(l => l.id !== id),
+        prev => [...prev, previous],
+        "Failed to delete label"
+      );
+    },
+  }), [boardId, run, labelsRef]);
+
+  return { labels, actions };
+}
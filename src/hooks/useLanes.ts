@@ -0,0 +1,90 @@
+"use client";
+
+import { useMemo } from "react";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { rowToLane, type LaneDef } from "@/lib/lanes";
+
+export type LaneActions = {
+  add: (name: string) => Promise<boolean>;
+  rename: (id: string, name: string) => Promise<boolean>;
+  move: (id: string, direction: -1 | 1) => Promise<boolean>;
+  remove: (id: string) => Promise<boolean>;
+};
+
+const TABLE = "kanban_lanes";
+
+function sortLanes(lanes: LaneDef[]) {
+  return [...lanes].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+const LANES: BoardTable<LaneDef> = {
+  table: TABLE,
+  select: "id, board_id, name, position",
+  noun: "lanes",
+  fromRow: rowToLane,
+  sort: sortLanes,
+};
+
+/**
+ * A board's swimlanes, kept in sync over realtime. Changes are optimistic and go through
+ * the offline write queue, like labels.
+ */
+export function useLanes(boardId: string, onError: (message: string) => void) {
+  const { rows: lanes, rowsRef: lanesRef, run } = useBoardTable(LANES, boardId, onError);
+
+  const actions: LaneActions = useMemo(() => ({
+    add: (name) => {
+      const lane: LaneDef = {
+        id: crypto.randomUUID(),
+        board_id: boardId,
+        name,
+        position: lanesRef.current.reduce((max, l) => Math.max(max, l.position), -1) + 1,
+      };
+      return run(
+        { table: TABLE, action: "insert", rowId: lane.id, values: lane },
+        prev => [...prev, lane],
+        prev => prev.filter(l => l.id !== lane.id),
+        "Failed to add lane"
+      );
+    },
+    rename: (id, name) => {
+      const previous = lanesRef.current.find(l => l.id === id);
+      if (!previous) return Promise.resolve(false);
+      return run(
+        { table: TABLE, action: "update", rowId: id, values: { name } },
+        prev => prev.map(l => (l.id === id ? { ...l, name } : l)),
+        prev => prev.map(l => (l.id === id ? previous : l)),
+        "Failed to rename lane"
+      );
+    },
+    move: (id, direction) => {
+      const current = lanesRef.current;
+      const index = current.findIndex(l => l.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= current.length) return Promise.resolve(false);
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      const positioned = reordered.map((l, position) => ({ ...l, position }));
+      const changed = positioned.filter(l => current.find(c => c.id === l.id)?.position !== l.position);
+      return run(
+        changed.map(l => ({ table: TABLE, action: "update", rowId: l.id, values: { position: l.position } })),
+        () => positioned,
+        () => current,
+        "Failed to reorder lanes"
+      );
+    },
+    remove: (id) => {
+      const previous = lanesRef.current.find(l => l.id === id);
+      if (!previous) return Promise.resolve(false);
+      // The database moves the lane's cards to No lane; those updates arrive over realtime
+      return run(
+        { table: TABLE, action: "delete", rowId: id },
+        prev => prev.filter(l => l.id !== id),
+        prev => [...prev, previous],
+        "Failed to delete lane"
+      );
+    },
+  }), [boardId, run, lanesRef]);
+
+  return { lanes, actions };
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useMemo } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { localDateString } from "@/lib/dueDates";
+import { nextOccurrence, rowToRecurrence, type Recurrence, type RecurrenceRule } from "@/lib/recurrence";
+import type { RecurrenceRun } from "@/lib/generateRecurrences";
+
+export type RecurrenceActions = {
+  // `dueDate` is the card's; the schedule continues after it (or after today without one)
+  set: (cardId: string, rule: RecurrenceRule, dueDate?: string) => Promise<boolean>;
+  clear: (cardId: string) => Promise<boolean>;
+  // Ask the server to make the occurrences that are due, e.g. after a recurring card reaches Done
+  runDue: () => Promise<void>;
+};
+
+const TABLE = "kanban_recurrences";
+
+const RECURRENCES: BoardTable<Recurrence> = {
+  table: TABLE,
+  select: "id, board_id, card_id, kind, weekdays, month_day, interval_days, column_key, next_on",
+  noun: "recurrences",
+  fromRow: rowToRecurrence,
+};
+
+/**
+ * A board's recurrence rules, keyed by the card each belongs to. Kept in sync over realtime,
+ * which is also how a rule follows its series when the server makes the next card.
+ */
+export function useRecurrences(boardId: string, onError: (message: string) => void) {
+  const { rows: rules, rowsRef: rulesRef, run, reportError } = useBoardTable(RECURRENCES, boardId, onError);
+
+  const byCard = useMemo(() => Object.fromEntries(rules.map(r => [r.card_id, r])) as Record<string, Recurrence>, [rules]);
+
+  const actions: RecurrenceActions = useMemo(() => ({
+    set: (cardId, rule, dueDate) => {
+      const previous = rulesRef.current.find(r => r.card_id === cardId);
+      const values = {
+        ...rule,
+        next_on: rule.kind === "after_done" ? null : nextOccurrence(rule, dueDate ?? localDateString(new Date())),
+      };
+      if (previous) {
+        return run(
+          { table: TABLE, action: "update", rowId: previous.id, values },
+          prev => prev.map(r => (r.id === previous.id ? { ...r, ...values } : r)),
+          prev => prev.map(r => (r.id === previous.id ? previous : r)),
+          "Failed to update the repeat"
+        );
+      }
+      const created: Recurrence = { ...values, id: crypto.randomUUID(), board_id: boardId, card_id: cardId };
+      return run(
+        { table: TABLE, action: "insert", rowId: created.id, values: created },
+        prev => [...prev, created],
+        prev => prev.filter(r => r.id !== created.id),
+        "Failed to make the card repeat"
+      );
+    },
+    clear: (cardId) => {
+      const previous = rulesRef.current.find(r => r.card_id === cardId);
+      if (!previous) return Promise.resolve(true);
+      return run(
+        { table: TABLE, action: "delete", rowId: previous.id },
+        prev => prev.filter(r => r.id !== previous.id),
+        prev => [...prev, previous],
+        "Failed to stop the repeat"
+      );
+    },
+    runDue: async () => {
+      const { data } = await supabase.auth.getSession();
+      const token = data.session?.access_token;
+      if (!token) return;
+      try {
+        const response = await fetch("/api/recurrences", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ boardId }),
+        });
+        const result: RecurrenceRun & { error?: string } = await response.json();
+        const failure = result.error ?? result.errors?.[0];
+        if (failure) reportError(`Failed to create the next recurring card: ${failure}`);
+      } catch (error) {
+        // Offline, most likely; the scheduled run catches up
+        console.error("Error running recurrences:", error);
+      }
+    },
+  }), [boardId, run, rulesRef, reportError]);
+
+  return { byCard, actions };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Check on mount
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    // Sign-in, sign-out and token refreshes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { session, user: session?.user ?? null, loading };
+}
+
+// Same as useSession, but sends signed-out visitors to the login page
+export function useRequireSession() {
+  const state = useSession();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!state.loading && !state.session) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [state.loading, state.session, router, pathname]);
+
+  return state;
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useMemo } from "react";
+import { useBoardTable, type BoardTable } from "@/hooks/useBoardTable";
+import { rowToTemplate, type CardTemplate } from "@/lib/templates";
+
+// Everything the editor sets; id, board and position are the hook's business
+export type TemplateInput = Omit<CardTemplate, "id" | "board_id" | "position">;
+
+export type TemplateActions = {
+  add: (input: TemplateInput) => Promise<boolean>;
+  update: (id: string, patch: Partial<TemplateInput>) => Promise<boolean>;
+  remove: (id: string) => Promise<boolean>;
+};
+
+const TABLE = "kanban_card_templates";
+
+function sortTemplates(templates: CardTemplate[]) {
+  return [...templates].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+const TEMPLATES: BoardTable<CardTemplate> = {
+  table: TABLE,
+  select: "id, board_id, name, title, description, links, column_key, priority, label_ids, position",
+  noun: "templates",
+  fromRow: rowToTemplate,
+  sort: sortTemplates,
+};
+
+/**
+ * A board's card templates, kept in sync over realtime. Changes are optimistic and go
+ * through the offline write queue, like labels.
+ */
+export function useTemplates(boardId: string, onError: (message: string) => void) {
+  const { rows: templates, rowsRef: templatesRef, run } = useBoardTable(TEMPLATES, boardId, onError);
+
+  const actions: TemplateActions = useMemo(() => ({
+    add: (input) => {
+      const template: CardTemplate = {
+        ...input,
+        id: crypto.randomUUID(),
+        board_id: boardId,
+        position: templatesRef.current.reduce((max, t) => Math.max(max, t.position), -1) + 1,
+      };
+      return run(
+        { table: TABLE, action: "insert", rowId: template.id, values: template },
+        prev => [...prev, template],
+        prev => prev.filter(t => t.id !== template.id),
+        "Failed to add template"
+      );
+    },
+    update: (id, patch) => {
+      const previous = templatesRef.current.find(t => t.id === id);
+      if (!previous) return Promise.resolve(false);
+      return run(
+        { table: TABLE, action: "update", rowId: id, values: patch },
+        prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)),
+        prev => prev.map(t => (t.id === id ? previous : t)),
+        "Failed to update template"
+      );
+    },
+    remove: (id) => {
+      const previous = templatesRef.current.find(t => t.id === id);
+      if (!previous) return Promise.resolve(false);
+      return run(
+        { table: TABLE, action: "delete", rowId: id },
+        prev => prev.filter(t => t.id !== id),
+        prev => [...prev, previous],
+        "Failed to delete template"
+      );
+    },
+  }), [boardId, run, templatesRef]);
+
+  return { templates, actions };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useRef, useCallback } from "react";
+
+export type HistoryEntry = {
+  label: string;
+  // Each resolves to false when the write failed; the entry is then dropped
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+};
+
+export function useUndoHistory(limit = 50) {
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const busy = useRef(false);
+  const [, setVersion] = useState(0);
+  const changed = () => setVersion((v) => v + 1);
+
+  const push = useCallback((entry: HistoryEntry) => {
+    undoStack.current = [...undoStack.current, entry].slice(-limit);
+    redoStack.current = [];
+    changed();
+  }, [limit]);
+
+  const undo = useCallback(async () => {
+    // One step at a time - the next undo needs the previous one's writes in place
+    if (busy.current) return;
+    const entry = undoStack.current[undoStack.current.length - 1];
+    if (!entry) return;
+    busy.current = true;
+    undoStack.current = undoStack.current.slice(0, -1);
+    try {
+      if (await entry.undo()) {
+        redoStack.current = [...redoStack.current, entry];
+      }
+    } finally {
+      busy.current = false;
+      changed();
+    }
+  }, []);
+
+  const redo = useCallback(async () => {
+    if (busy.current) return;
+    const entry = redoStack.current[redoStack.current.length - 1];
+    if (!entry) return;
+    busy.current = true;
+    redoStack.current = redoStack.current.slice(0, -1);
+    try {
+      if (await entry.redo()) {
+        undoStack.current = [...undoStack.current, entry];
+      }
+    } finally {
+      busy.current = false;
+      changed();
+    }
+  }, []);
+
+  return {
+    push,
+    undo,
+    redo,
+    canUndo: undoStack.current.length > 0,
+    canRedo: redoStack.current.length > 0,
+    nextUndo: undoStack.current[undoStack.current.length - 1]?.label,
+  };
+}
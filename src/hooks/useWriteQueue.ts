@@ -0,0 +1,39 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  type QueuedWrite,
+  discardFailedWrites,
+  flushWriteQueue,
+  retryFailedWrites,
+  subscribeToWriteQueue,
+} from "@/lib/writeQueue";
+
+export function useWriteQueue() {
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToWriteQueue(setWrites);
+
+    // Replay anything left over from a previous session, and again whenever the browser is back online
+    void flushWriteQueue();
+    const handleOnline = () => {
+      void flushWriteQueue();
+    };
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  return {
+    writes,
+    pendingCount: writes.filter((w) => w.status !== "failed").length,
+    failedCount: writes.filter((w) => w.status === "failed").length,
+    flush: flushWriteQueue,
+    retryFailed: retryFailedWrites,
+    discardFailed: discardFailedWrites,
+  };
+}
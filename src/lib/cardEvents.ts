@@ -0,0 +1,83 @@
+import { enqueueWrite } from "@/lib/writeQueue";
+
+// Per-card history, stored in kanban_card_events. Every card write in the board and the
+// mobile list records one of these right after it; they queue behind the card write, so
+// offline edits keep their history in order.
+
+export type CardEventKind = "created" | "edited" | "moved" | "reordered" | "deleted" | "restored";
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+export type CardEvent = {
+  id: string;
+  card_id: string;
+  board_id: string;
+  kind: CardEventKind;
+  changes: FieldChange[] | null;
+  from_column: string | null;
+  to_column: string | null;
+  // Filled in by the database for the signed-in user
+  actor_id?: string | null;
+  actor_email?: string | null;
+  created_at: string;
+};
+
+export type NewCardEvent = Pick<CardEvent, "card_id" | "board_id" | "kind"> &
+  Partial<Pick<CardEvent, "changes" | "from_column" | "to_column">>;
+
+// kanban_cards columns worth recording, with how the timeline names them
+export const TRACKED_FIELDS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  links: "links",
+  due_date: "due date",
+  due_time: "due time",
+  priority: "priority",
+  label_ids: "labels",
+};
+
+const normalize = (value: unknown) =>
+  JSON.stringify(value === undefined || (Array.isArray(value) && value.length === 0) ? null : value);
+
+/** The tracked fields that differ between two kanban_cards rows (missing and empty count as null). */
+export function diffCardFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  return Object.keys(TRACKED_FIELDS)
+    .filter(field => field in after && normalize(before[field]) !== normalize(after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/**
+ * Queue an event. History is best effort: a failed write is logged, never rolled back
+ * into the card change it describes.
+ */
+export async function recordCardEvent(event: NewCardEvent) {
+  if (event.kind === "edited" && !event.changes?.length) return;
+  const id = crypto.randomUUID();
+  const { error } = await enqueueWrite({
+    table: "kanban_card_events",
+    action: "insert",
+    rowId: id,
+    values: { changes: null, from_column: null, to_column: null, ...event, id, created_at: new Date().toISOString() },
+  });
+  if (error) console.error("Error recording card event:", error);
+}
+
+/** A move between columns, or a reorder within one; column titles are kept for the timeline. */
+export function recordCardMove(
+  cardId: string,
+  boardId: string,
+  from: { key: string; title: string },
+  to: { key: string; title: string }
+) {
+  if (from.key === to.key) {
+    return recordCardEvent({ card_id: cardId, board_id: boardId, kind: "reordered", from_column: from.key, to_column: to.key });
+  }
+  return recordCardEvent({
+    card_id: cardId,
+    board_id: boardId,
+    kind: "moved",
+    from_column: from.key,
+    to_column: to.key,
+    changes: [{ field: "column", before: from.title, after: to.title }],
+  });
+}
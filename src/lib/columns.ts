@@ -0,0 +1,149 @@
+// Board columns as stored in kanban_columns
+
+import { sortByDue } from "@/lib/dueDates";
+import { sortByPriority, type Priority } from "@/lib/priority";
+
+// Column colors are a fixed palette so the Tailwind classes stay static
+export const COLUMN_COLORS = {
+  blue: { label: "Blue", bg: "bg-[#E8F0FE]", ring: "ring-[#a7c0ff]", swatch: "bg-[#a7c0ff]" },
+  green: { label: "Green", bg: "bg-[#EAF7F1]", ring: "ring-[#b6e3cf]", swatch: "bg-[#b6e3cf]" },
+  purple: { label: "Purple", bg: "bg-[#F4F0FF]", ring: "ring-[#d6c8ff]", swatch: "bg-[#d6c8ff]" },
+  orange: { label: "Orange", bg: "bg-[#FFF6E5]", ring: "ring-[#ffd9a5]", swatch: "bg-[#ffd9a5]" },
+  pink: { label: "Pink", bg: "bg-[#FDEEF4]", ring: "ring-[#f5b8cf]", swatch: "bg-[#f5b8cf]" },
+  gray: { label: "Gray", bg: "bg-[#F3F4F6]", ring: "ring-[#d1d5db]", swatch: "bg-[#d1d5db]" },
+} as const;
+
+export type ColumnColor = keyof typeof COLUMN_COLORS;
+
+// Work-in-progress limits: "warn" lets a card in and flags the column, "block" refuses it
+export type WipMode = "warn" | "block";
+
+export const WIP_MODES: Record<WipMode, string> = {
+  warn: "Warn when over",
+  block: "Block moves over",
+};
+
+// Field names match the table, so a definition can be written as a row as-is
+export type ColumnDef = {
+  key: string;
+  title: string;
+  color: ColumnColor;
+  position: number;
+  wip_limit: number | null;
+  wip_mode: WipMode;
+};
+
+// The original board's columns; new boards start from copies (see defaultColumnsFor)
+export const DEFAULT_COLUMNS: ColumnDef[] = [
+  { key: "todo", title: "To-do", color: "blue", position: 0, wip_limit: null, wip_mode: "warn" },
+  { key: "doing", title: "In-progress", color: "green", position: 1, wip_limit: null, wip_mode: "warn" },
+  { key: "done", title: "Done", color: "purple", position: 2, wip_limit: null, wip_mode: "warn" },
+  { key: "temp", title: "Temp", color: "orange", position: 3, wip_limit: null, wip_mode: "warn" },
+];
+
+export function columnColor(color: string | null | undefined) {
+  return COLUMN_COLORS[(color ?? "gray") as ColumnColor] ?? COLUMN_COLORS.gray;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowToColumn(row: any): ColumnDef {
+  return {
+    key: String(row.key),
+    title: row.title ?? String(row.key),
+    color: row.color in COLUMN_COLORS ? row.color : "gray",
+    position: Number(row.position ?? 0),
+    wip_limit: Number(row.wip_limit) > 0 ? Number(row.wip_limit) : null,
+    wip_mode: row.wip_mode === "block" ? "block" : "warn",
+  };
+}
+
+/** How a column's card count compares with its WIP limit; null when it has none. */
+export function wipStatus(column: ColumnDef, count: number): "under" | "at" | "over" | null {
+  if (!column.wip_limit) return null;
+  return count < column.wip_limit ? "under" : count === column.wip_limit ? "at" : "over";
+}
+
+/** Whether one more card would take the column past its WIP limit. */
+export function wouldExceedWip(column: ColumnDef, count: number) {
+  return !!column.wip_limit && count + 1 > column.wip_limit;
+}
+
+// Keys are permanent ids (cards reference them) shared by all boards, so they are
+// derived once from the title plus a random suffix
+export function newColumnKey(title: string, existing: string[]) {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 24) || "column";
+  let key: string;
+  do {
+    key = `${base}-${Math.random().toString(36).slice(2, 8)}`;
+  } while (existing.includes(key));
+  return key;
+}
+
+// Starting columns for a new board
+export function defaultColumnsFor(boardId: string): (ColumnDef & { board_id: string })[] {
+  return DEFAULT_COLUMNS.map(col => ({
+    ...col,
+    key: `${col.key}-${boardId.slice(0, 8)}`,
+    board_id: boardId,
+  }));
+}
+
+// How a column lists its cards. This is a per-person view setting kept in localStorage;
+// the manual (rank) order underneath is never changed by it.
+export type ColumnSort = "manual" | "priority" | "due" | "created" | "updated";
+
+export const COLUMN_SORTS: Record<ColumnSort, string> = {
+  manual: "Manual order",
+  priority: "Priority",
+  due: "Due date",
+  created: "Newest first",
+  updated: "Recently updated",
+};
+
+type SortableCard = { priority?: Priority; dueDate?: string; dueTime?: string; createdAt?: string; updatedAt?: string };
+
+// Newest first by an ISO timestamp; cards without one go last
+function byTimestamp<T>(key: (item: T) => string | undefined) {
+  return (a: T, b: T) => (key(b) ?? "").localeCompare(key(a) ?? "");
+}
+
+/**
+ * A column's cards in its display order. Sorting never touches the stored ranks, so
+ * switching back to "manual" restores the order cards were dragged into.
+ */
+export function sortColumnItems<T extends SortableCard>(items: T[], sort: ColumnSort = "manual"): T[] {
+  switch (sort) {
+    case "priority":
+      return sortByPriority(items);
+    case "due":
+      return sortByDue(items);
+    case "created":
+      return [...items].sort(byTimestamp(item => item.createdAt));
+    case "updated":
+      return [...items].sort(byTimestamp(item => item.updatedAt));
+    default:
+      return items;
+  }
+}
+
+const sortStorageKey = (boardId: string) => `kanban-column-sort:${boardId}`;
+
+export function loadColumnSorts(boardId: string): Record<string, ColumnSort> {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    const stored = JSON.parse(localStorage.getItem(sortStorageKey(boardId)) ?? "{}");
+    return Object.fromEntries(
+      Object.entries(stored).filter(([, sort]) => typeof sort === "string" && sort in COLUMN_SORTS)
+    ) as Record<string, ColumnSort>;
+  } catch {
+    return {};
+  }
+}
+
+export function saveColumnSorts(boardId: string, sorts: Record<string, ColumnSort>) {
+  try {
+    localStorage.setItem(sortStorageKey(boardId), JSON.stringify(sorts));
+  } catch (error) {
+    console.error("Error saving column sort:", error);
+  }
+}
@@ -0,0 +1,54 @@
+// Commands for the Ctrl+K palette. Anything on the page can offer commands through
+// useRegisterCommands; the palette collects them each time it opens.
+
+export type Command = {
+  // Unique among the commands on screen
+  id: string;
+  title: string;
+  // Heading the palette lists the command under, e.g. "Cards"
+  group?: string;
+  // Extra words to match on that aren't in the title
+  keywords?: string[];
+  // Shown next to the command, for actions that also have a key binding
+  shortcut?: string;
+  run: () => void | Promise<void>;
+};
+
+/**
+ * How well `query` fuzzy-matches `text`: every query character has to appear in order.
+ * Matches at word starts and runs of consecutive characters score higher; null is no match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    if (index === 0 || /[\s\-_/:"“]/.test(t[index - 1])) score += 8;
+    if (index === previous + 1) score += 5;
+    // Gaps cost a little, so tighter matches win between otherwise equal candidates
+    score -= Math.min(index - from, 5);
+    score += 1;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/** The commands matching the query, best first; an empty query keeps the given order. */
+export function filterCommands(commands: Command[], query: string): Command[] {
+  if (!query.trim()) return commands;
+  return commands
+    .map(command => {
+      const scores = [command.title, ...(command.keywords ?? [])].map(text => fuzzyScore(query, text));
+      const best = Math.max(...scores.map(s => s ?? -Infinity));
+      return { command, score: best };
+    })
+    .filter(({ score }) => score !== -Infinity)
+    .sort((a, b) => b.score - a.score)
+    .map(({ command }) => command);
+}
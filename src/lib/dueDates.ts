@@ -0,0 +1,79 @@
+// Card due dates are a calendar date plus an optional time of day, both read in the
+// viewer's local time zone (due_date / due_time columns).
+
+export type DueStatus = "overdue" | "today" | "week" | "later";
+
+export type DueFilter = "all" | "overdue" | "week";
+
+export const DUE_FILTERS: Record<DueFilter, string> = {
+  all: "All cards",
+  overdue: "Overdue",
+  week: "Due this week",
+};
+
+// How far ahead "due this week" looks, counting today
+const WEEK_DAYS = 7;
+
+/** YYYY-MM-DD for a local date. */
+export function localDateString(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** The moment a card falls due; date-only cards are due at the end of the day. */
+export function dueTimestamp(date: string, time?: string | null) {
+  return new Date(`${date}T${time || "23:59:59"}`).getTime();
+}
+
+export function dueStatus(date: string, time?: string | null, now = new Date()): DueStatus {
+  const today = localDateString(now);
+  if (date < today || (time && date === today && dueTimestamp(date, time) < now.getTime())) return "overdue";
+  if (date === today) return "today";
+  if (date < localDateString(addDays(now, WEEK_DAYS))) return "week";
+  return "later";
+}
+
+export function matchesDueFilter(filter: DueFilter, date?: string | null, time?: string | null, now = new Date()) {
+  if (filter === "all") return true;
+  if (!date) return false;
+  const status = dueStatus(date, time, now);
+  return filter === "overdue" ? status === "overdue" : status === "today" || status === "week";
+}
+
+/** "Today 14:00", "Tomorrow", or a short locale date ("Fri, Oct 23"; the year only when it differs). */
+export function formatDue(date: string, time?: string | null, now = new Date()) {
+  const day = new Date(`${date}T00:00:00`);
+  let label: string;
+  if (date === localDateString(now)) {
+    label = "Today";
+  } else if (date === localDateString(addDays(now, 1))) {
+    label = "Tomorrow";
+  } else if (date === localDateString(addDays(now, -1))) {
+    label = "Yesterday";
+  } else {
+    label = day.toLocaleDateString(undefined, {
+      weekday: Math.abs(day.getTime() - now.getTime()) < WEEK_DAYS * 86400000 ? "short" : undefined,
+      day: "numeric",
+      month: "short",
+      year: day.getFullYear() !== now.getFullYear() ? "numeric" : undefined,
+    });
+  }
+  return time ? `${label} ${time.slice(0, 5)}` : label;
+}
+
+/**
+ * Order cards by due date, earliest first; cards without one keep their manual order
+ * after the dated ones (Array.prototype.sort is stable).
+ */
+export function sortByDue<T extends { dueDate?: string; dueTime?: string }>(items: T[]) {
+  return [...items].sort((a, b) => {
+    if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+    return dueTimestamp(a.dueDate, a.dueTime) - dueTimestamp(b.dueDate, b.dueTime);
+  });
+}
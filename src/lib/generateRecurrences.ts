@@ -0,0 +1,166 @@
+// Server-side half of recurring cards, run by POST /api/recurrences. A rule's next card is
+// made when its current card has reached Done (the board's last column) or when its
+// scheduled day comes, whichever is first - so an occurrence is never made twice.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { compareRanks, rankBetween } from "@/lib/rank";
+import { addDaysTo, nextOccurrence, rowToRecurrence, type Recurrence } from "@/lib/recurrence";
+
+export type RecurrenceRun = {
+  generated: number;
+  errors: string[];
+};
+
+type Planned = { dueOn: string; nextOn: string | null };
+
+/**
+ * When the rule's next card is due and what next_on becomes after making it, or null if
+ * nothing is due yet. Missed days (the cron was off) are skipped rather than made one by one.
+ */
+export function planOccurrence(rule: Recurrence, completed: boolean, today: string): Planned | null {
+  if (rule.kind === "after_done") {
+    return completed ? { dueOn: addDaysTo(today, rule.interval_days ?? 1), nextOn: null } : null;
+  }
+  let dueOn = rule.next_on ?? nextOccurrence(rule, today);
+  if (!dueOn || (!completed && dueOn > today)) return null;
+  for (let following = nextOccurrence(rule, dueOn); following && following <= today; following = nextOccurrence(rule, dueOn)) {
+    dueOn = following;
+  }
+  return { dueOn, nextOn: nextOccurrence(rule, dueOn) };
+}
+
+/**
+ * Make every due occurrence. `boardId` limits the run to one board; the client's row-level
+ * security decides what it may see and change, so a signed-in editor only runs their boards.
+ */
+export async function generateRecurrences(
+  client: SupabaseClient,
+  { boardId, today }: { boardId?: string; today: string }
+): Promise<RecurrenceRun> {
+  const run: RecurrenceRun = { generated: 0, errors: [] };
+
+  let query = client
+    .from("kanban_recurrences")
+    .select("id, board_id, card_id, kind, weekdays, month_day, interval_days, column_key, next_on");
+  if (boardId) query = query.eq("board_id", boardId);
+  const { data: ruleRows, error: rulesError } = await query;
+  if (rulesError) {
+    run.errors.push(`Failed to load recurrences: ${rulesError.message}`);
+    return run;
+  }
+  const rules = (ruleRows || []).map(rowToRecurrence);
+  if (rules.length === 0) return run;
+
+  const boardIds = [...new Set(rules.map(r => r.board_id))];
+  const [{ data: cardRows, error: cardsError }, { data: columnRows, error: columnsError }] = await Promise.all([
+    client
+      .from("kanban_cards")
+      .select("id, board_id, title, description, links, column_key, due_time, label_ids, priority, lane_id")
+      .in("id", rules.map(r => r.card_id))
+      .in("board_id", boardIds),
+    client.from("kanban_columns").select("board_id, key, position").in("board_id", boardIds),
+  ]);
+  if (cardsError || columnsError) {
+    run.errors.push(`Failed to load cards: ${(cardsError ?? columnsError)!.message}`);
+    return run;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const cards = new Map<string, any>((cardRows || []).map(row => [String(row.id), row]));
+  const columnsByBoard = new Map<string, string[]>();
+  for (const row of [...(columnRows || [])].sort((a, b) => a.position - b.position)) {
+    columnsByBoard.set(row.board_id, [...(columnsByBoard.get(row.board_id) ?? []), row.key]);
+  }
+
+  for (const rule of rules) {
+    // A deleted card may still come back through undo, so its rule is kept
+    const card = cards.get(rule.card_id);
+    const columns = columnsByBoard.get(rule.board_id);
+    if (!card || !columns?.length) continue;
+    // The cron runs as the service role, past RLS: never copy a card from another board
+    if (String(card.board_id) !== rule.board_id) continue;
+
+    const done = columns[columns.length - 1];
+    const target = rule.column_key && columns.includes(rule.column_key) ? rule.column_key : columns[0];
+    // A series that lands its cards in Done would otherwise repeat on every run
+    const plan = planOccurrence(rule, card.column_key === done && target !== done, today);
+    if (!plan) continue;
+
+    const newId = crypto.randomUUID();
+
+    // Claim the occurrence first: of two overlapping runs, only the one that moves the rule on makes the card
+    const { data: claimed, error: claimError } = await client
+      .from("kanban_recurrences")
+      .update({ card_id: newId, next_on: plan.nextOn })
+      .eq("id", rule.id)
+      .eq("card_id", rule.card_id)
+      .select("id");
+    if (claimError) {
+      run.errors.push(`Failed to advance recurrence ${rule.id}: ${claimError.message}`);
+      continue;
+    }
+    if (!claimed?.length) continue;
+
+    // New cards go on top of the column, like cards added in the app
+    const { data: rankRows } = await client
+      .from("kanban_cards")
+      .select("rank")
+      .eq("board_id", rule.board_id)
+      .eq("column_key", target);
+    const topRank = (rankRows || []).map(r => r.rank as string | null).sort(compareRanks)[0];
+
+    const now = new Date().toISOString();
+    const { error: insertError } = await client.from("kanban_cards").insert({
+      id: newId,
+      board_id: rule.board_id,
+      title: card.title,
+      description: card.description,
+      links: card.links,
+      column_key: target,
+      position: 0,
+      rank: rankBetween(null, topRank),
+      due_date: plan.dueOn,
+      due_time: card.due_time,
+      label_ids: card.label_ids ?? [],
+      priority: card.priority,
+      lane_id: card.lane_id,
+      created_at: now,
+      updated_at: now,
+    });
+    if (insertError) {
+      run.errors.push(`Failed to create the next "${card.title}": ${insertError.message}`);
+      // Hand the rule back so the next run tries again
+      await client
+        .from("kanban_recurrences")
+        .update({ card_id: rule.card_id, next_on: rule.next_on })
+        .eq("id", rule.id)
+        .eq("card_id", newId);
+      continue;
+    }
+
+    // Starts its history like a card added in the app; cron-made cards have no actor
+    const { error: eventError } = await client.from("kanban_card_events").insert({
+      card_id: newId,
+      board_id: rule.board_id,
+      kind: "created",
+      to_column: target,
+      created_at: now,
+    });
+    if (eventError) run.errors.push(`Failed to record the creation of "${card.title}": ${eventError.message}`);
+
+    // The checklist comes along, unticked
+    const { data: checklistRows } = await client
+      .from("kanban_checklist_items")
+      .select("text, rank")
+      .eq("card_id", rule.card_id)
+      .eq("board_id", rule.board_id);
+    if (checklistRows?.length) {
+      const { error: checklistError } = await client.from("kanban_checklist_items").insert(
+        checklistRows.map(item => ({ card_id: newId, board_id: rule.board_id, text: item.text, rank: item.rank, done: false }))
+      );
+      if (checklistError) run.errors.push(`Failed to copy the checklist of "${card.title}": ${checklistError.message}`);
+    }
+    run.generated++;
+  }
+  return run;
+}
@@ -0,0 +1,49 @@
+// Card labels as stored in kanban_labels
+
+// Static classes, like the column palette, so Tailwind can see them
+export const LABEL_COLORS = {
+  red: { label: "Red", chip: "bg-red-100 text-red-800 ring-red-200", swatch: "bg-red-500" },
+  orange: { label: "Orange", chip: "bg-orange-100 text-orange-800 ring-orange-200", swatch: "bg-orange-500" },
+  yellow: { label: "Yellow", chip: "bg-yellow-100 text-yellow-800 ring-yellow-200", swatch: "bg-yellow-400" },
+  green: { label: "Green", chip: "bg-green-100 text-green-800 ring-green-200", swatch: "bg-green-500" },
+  blue: { label: "Blue", chip: "bg-blue-100 text-blue-800 ring-blue-200", swatch: "bg-blue-500" },
+  purple: { label: "Purple", chip: "bg-purple-100 text-purple-800 ring-purple-200", swatch: "bg-purple-500" },
+  pink: { label: "Pink", chip: "bg-pink-100 text-pink-800 ring-pink-200", swatch: "bg-pink-500" },
+  gray: { label: "Gray", chip: "bg-neutral-100 text-neutral-700 ring-neutral-200", swatch: "bg-neutral-400" },
+} as const;
+
+export type LabelColor = keyof typeof LABEL_COLORS;
+
+export type LabelDef = {
+  id: string;
+  board_id: string;
+  name: string;
+  color: LabelColor;
+  position: number;
+};
+
+export function labelColor(color: string | null | undefined) {
+  return LABEL_COLORS[(color ?? "gray") as LabelColor] ?? LABEL_COLORS.gray;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowToLabel(row: any): LabelDef {
+  return {
+    id: String(row.id),
+    board_id: String(row.board_id),
+    name: row.name ?? "",
+    color: row.color in LABEL_COLORS ? row.color : "gray",
+    position: Number(row.position ?? 0),
+  };
+}
+
+// label_ids from a kanban_cards row (absent before labels existed)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowLabelIds(row: any): string[] | undefined {
+  return Array.isArray(row.label_ids) && row.label_ids.length ? row.label_ids.map(String) : undefined;
+}
+
+/** "any" label filter: a card matches when it carries at least one of the chosen labels. */
+export function matchesLabelFilter(selected: string[], labelIds?: string[] | null) {
+  return selected.length === 0 || (labelIds ?? []).some(id => selected.includes(id));
+}
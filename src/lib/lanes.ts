@@ -0,0 +1,70 @@
+// Swimlanes as stored in kanban_lanes. Cards point at one with lane_id; cards without a
+// lane (or whose lane was deleted) are grouped under "No lane".
+
+export type LaneDef = {
+  id: string;
+  board_id: string;
+  name: string;
+  position: number;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowToLane(row: any): LaneDef {
+  return {
+    id: String(row.id),
+    board_id: String(row.board_id),
+    name: row.name ?? "",
+    position: Number(row.position ?? 0),
+  };
+}
+
+/** The lane a card shows up in: its own, or null (No lane) when it has none or it is gone. */
+export function laneOf(laneId: string | null | undefined, lanes: LaneDef[]): string | null {
+  return laneId && lanes.some(l => l.id === laneId) ? laneId : null;
+}
+
+// Stands in for the No lane group in ids and view settings; lane ids are uuids, never this
+export const NO_LANE = "none";
+
+// Droppable ids of the board's cells when grouped by lane
+const CELL_PREFIX = "lane-cell:";
+
+export function laneCellId(laneId: string | null, columnKey: string) {
+  return `${CELL_PREFIX}${laneId ?? NO_LANE}:${columnKey}`;
+}
+
+export function parseLaneCellId(id: string): { laneId: string | null; columnKey: string } | null {
+  if (!id.startsWith(CELL_PREFIX)) return null;
+  const rest = id.slice(CELL_PREFIX.length);
+  const split = rest.indexOf(":");
+  if (split === -1) return null;
+  const lane = rest.slice(0, split);
+  return { laneId: lane === NO_LANE ? null : lane, columnKey: rest.slice(split + 1) };
+}
+
+// Whether the board is grouped by lane and which lanes are collapsed are per-person view
+// settings, kept in localStorage like column sorts. collapsed holds lane ids (or NO_LANE).
+export type LaneView = { enabled: boolean; collapsed: string[] };
+
+const viewStorageKey = (boardId: string) => `kanban-lanes:${boardId}`;
+
+export function loadLaneView(boardId: string): LaneView {
+  if (typeof localStorage === "undefined") return { enabled: false, collapsed: [] };
+  try {
+    const stored = JSON.parse(localStorage.getItem(viewStorageKey(boardId)) ?? "{}");
+    return {
+      enabled: stored.enabled === true,
+      collapsed: Array.isArray(stored.collapsed) ? stored.collapsed.map(String) : [],
+    };
+  } catch {
+    return { enabled: false, collapsed: [] };
+  }
+}
+
+export function saveLaneView(boardId: string, view: LaneView) {
+  try {
+    localStorage.setItem(viewStorageKey(boardId), JSON.stringify(view));
+  } catch (error) {
+    console.error("Error saving lane view:", error);
+  }
+}
@@ -0,0 +1,179 @@
+// A small Markdown parser for card descriptions.
+//
+// It produces a plain tree that components/Markdown renders as React elements, so card
+// text never reaches the DOM as HTML - raw tags show up as text and only http(s), mailto
+// and relative links become anchors. Covers what cards need: headings, paragraphs,
+// bullet/numbered/task lists, fenced code, block quotes, rules, and inline code, bold,
+// italics and links.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: Inline[] }
+  | { type: "em"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] };
+
+export type ListItem = {
+  // null for ordinary items, true/false for "- [x]" / "- [ ]" task items
+  checked: boolean | null;
+  children: Inline[];
+};
+
+export type Block =
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "rule" };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+
+/** Only these links are rendered as anchors; anything else (javascript:, data:, ...) stays text. */
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  // Relative links and anchors, but not protocol-relative "//host" ones
+  if (/^(\/(?!\/)|#|\.{1,2}\/)/.test(trimmed)) return trimmed;
+  return null;
+}
+
+/** A card's comma-separated links field, keeping only the links safeHref lets through. */
+export function parseLinks(text: string): { label: string; href: string }[] {
+  return text
+    .split(",")
+    .map(part => safeHref(part))
+    .filter((href): href is string => !!href)
+    .map((href, i) => ({ label: `Link ${i + 1}`, href }));
+}
+
+function isBlockStart(line: string) {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the text
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      const ordered = /\d/.test(first[2]);
+      const texts: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && /\d/.test(item[2]) === ordered) {
+          texts.push(item[3]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && texts.length > 0 && !item) {
+          // Indented continuation of the previous item
+          texts[texts.length - 1] += " " + lines[i].trim();
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? parseInt(first[2], 10) : 1,
+        items: texts.map(text => {
+          const task = text.match(TASK);
+          return task
+            ? { checked: task[1] !== " ", children: parseInline(task[2]) }
+            : { checked: null, children: parseInline(text) };
+        }),
+      });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !isBlockStart(lines[i]))) {
+      body.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(body.join(" ")) });
+  }
+
+  return blocks;
+}
+
+// Code spans first so their contents aren't formatted, then links, bold, italics and bare URLs
+const INLINE = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_\b|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g;
+
+export function parseInline(text: string): Inline[] {
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) result.push({ type: "text", text: text.slice(last, index) });
+    const [whole, code, linkText, linkHref, strong, strongAlt, em, emAlt, url] = match;
+
+    if (code !== undefined) {
+      result.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkHref);
+      result.push(href
+        ? { type: "link", href, children: parseInline(linkText) }
+        : { type: "text", text: whole });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      result.push({ type: "strong", children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      result.push({ type: "em", children: parseInline(em ?? emAlt) });
+    } else if (url !== undefined) {
+      result.push({ type: "link", href: url, children: [{ type: "text", text: url }] });
+    }
+    last = index + whole.length;
+  }
+  if (last < text.length) result.push({ type: "text", text: text.slice(last) });
+  return result;
+}
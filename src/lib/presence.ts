@@ -0,0 +1,62 @@
+// What each client shares on the board's realtime channel
+export type PresenceState = {
+  user_id: string;
+  email: string;
+  // Card whose edit dialog is open
+  editing: string | null;
+  // Card being dragged
+  dragging: string | null;
+  online_at: string;
+};
+
+export type Viewer = { userId: string; email: string };
+
+// What other people are doing to one card
+export type CardActivity = { editors: Viewer[]; dragger: Viewer | null };
+
+const AVATAR_COLORS = ["bg-blue-500", "bg-green-500", "bg-purple-500", "bg-orange-500", "bg-pink-500", "bg-teal-500"];
+
+export function avatarColor(userId: string) {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+export function initials(email: string) {
+  const name = email.split("@")[0];
+  const parts = name.split(/[._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : name.slice(0, 2)).toUpperCase();
+}
+
+/**
+ * Flatten a channel's presence state into one entry per user. A user with several tabs
+ * open is shown once, with the activity of whichever tab is doing something.
+ */
+export function presenceByUser(state: Record<string, PresenceState[]>): PresenceState[] {
+  const byUser = new Map<string, PresenceState>();
+  for (const entries of Object.values(state)) {
+    for (const entry of entries) {
+      const seen = byUser.get(entry.user_id);
+      byUser.set(entry.user_id, seen ? {
+        ...seen,
+        editing: seen.editing ?? entry.editing,
+        dragging: seen.dragging ?? entry.dragging,
+      } : entry);
+    }
+  }
+  return Array.from(byUser.values()).sort((a, b) => a.online_at.localeCompare(b.online_at));
+}
+
+// Per-card activity of everyone except the given user
+export function cardActivity(others: PresenceState[]): Record<string, CardActivity> {
+  const result: Record<string, CardActivity> = {};
+  const entry = (cardId: string) => (result[cardId] ??= { editors: [], dragger: null });
+  for (const p of others) {
+    const viewer = { userId: p.user_id, email: p.email };
+    if (p.editing) entry(p.editing).editors.push(viewer);
+    if (p.dragging) entry(p.dragging).dragger = viewer;
+  }
+  return result;
+}
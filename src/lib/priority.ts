@@ -0,0 +1,26 @@
+// Card priority (the kanban_cards.priority enum). Ordered lowest first, like the enum.
+
+export const PRIORITIES = ["none", "low", "medium", "high", "urgent"] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  none: "No priority",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+export function toPriority(value: unknown): Priority {
+  return PRIORITIES.includes(value as Priority) ? (value as Priority) : "none";
+}
+
+/**
+ * Highest priority first; cards with equal priority keep their manual order
+ * (Array.prototype.sort is stable).
+ */
+export function sortByPriority<T extends { priority?: Priority }>(items: T[]) {
+  const weight = (item: T) => PRIORITIES.indexOf(item.priority ?? "none");
+  return [...items].sort((a, b) => weight(b) - weight(a));
+}
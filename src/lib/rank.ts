@@ -0,0 +1,64 @@
+// Fractional ranking for card order.
+//
+// Ranks are base62 strings compared byte-wise (the column uses the "C" collation),
+// read as the digits after a decimal point: "V" ~ 0.5, "V8" ~ 0.503... A key never
+// ends in "0", so there is always room for a new key between any two neighbours.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Keys longer than this mean a column has been reordered into a tight spot and
+// should be respread with spreadRanks
+export const MAX_RANK_LENGTH = 12;
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Shared prefix: recurse on the part after it
+    let n = 0;
+    while ((a[n] || "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits - take the first digit of b if that is enough, else go one level deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/** Returns a rank that sorts strictly between `before` and `after` (null = open end). */
+export function rankBetween(before: string | null | undefined, after: string | null | undefined): string {
+  const a = before ?? "";
+  const b = after ?? null;
+  if (b !== null && a >= b) {
+    throw new Error(`Invalid rank range: "${a}" is not before "${b}"`);
+  }
+  return midpoint(a, b);
+}
+
+/** Evenly spaced ranks for `count` cards, leaving room on both ends and in between. */
+export function spreadRanks(count: number): string[] {
+  let width = 1;
+  // Keep roughly one digit of headroom between neighbours
+  while (Math.pow(DIGITS.length, width) < (count + 1) * DIGITS.length) width++;
+  const span = Math.pow(DIGITS.length, width);
+  const ranks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let value = Math.floor(((i + 1) * span) / (count + 1));
+    let key = "";
+    for (let d = 0; d < width; d++) {
+      key = DIGITS[value % DIGITS.length] + key;
+      value = Math.floor(value / DIGITS.length);
+    }
+    ranks.push(key.replace(/0+$/, ""));
+  }
+  return ranks;
+}
+
+export function compareRanks(a: string | null | undefined, b: string | null | undefined) {
+  // Unranked (legacy) cards sort last
+  if (!a) return b ? 1 : 0;
+  if (!b) return -1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,113 @@
+// Recurrence rules as stored in kanban_recurrences. Dates are YYYY-MM-DD local calendar
+// days, like card due dates.
+
+import { localDateString } from "@/lib/dueDates";
+
+export type RecurrenceKind = "daily" | "weekly" | "monthly" | "after_done";
+
+export const RECURRENCE_KINDS: Record<RecurrenceKind, string> = {
+  daily: "Every day",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  after_done: "After completion",
+};
+
+export type Recurrence = {
+  id: string;
+  board_id: string;
+  // The latest card of the series
+  card_id: string;
+  kind: RecurrenceKind;
+  // 0 = Sunday ... 6 = Saturday
+  weekdays: number[];
+  month_day: number | null;
+  interval_days: number | null;
+  column_key: string | null;
+  next_on: string | null;
+};
+
+// What the editor sets; the rest belongs to the series
+export type RecurrenceRule = Pick<Recurrence, "kind" | "weekdays" | "month_day" | "interval_days" | "column_key">;
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowToRecurrence(row: any): Recurrence {
+  return {
+    id: String(row.id),
+    board_id: String(row.board_id),
+    card_id: String(row.card_id),
+    kind: row.kind in RECURRENCE_KINDS ? row.kind : "daily",
+    weekdays: Array.isArray(row.weekdays) ? row.weekdays.map(Number).sort() : [],
+    month_day: row.month_day == null ? null : Number(row.month_day),
+    interval_days: row.interval_days == null ? null : Number(row.interval_days),
+    column_key: row.column_key ?? null,
+    next_on: row.next_on ?? null,
+  };
+}
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export function addDaysTo(date: string, days: number) {
+  const next = parseDate(date);
+  next.setDate(next.getDate() + days);
+  return localDateString(next);
+}
+
+/**
+ * The first scheduled day strictly after `date`. Null for after_done rules, which have
+ * no schedule: their next card follows completion.
+ */
+export function nextOccurrence(rule: RecurrenceRule, date: string): string | null {
+  switch (rule.kind) {
+    case "daily":
+      return addDaysTo(date, 1);
+    case "weekly": {
+      if (!rule.weekdays.length) return addDaysTo(date, 7);
+      for (let days = 1; days <= 7; days++) {
+        const day = addDaysTo(date, days);
+        if (rule.weekdays.includes(parseDate(day).getDay())) return day;
+      }
+      return null;
+    }
+    case "monthly": {
+      const after = parseDate(date);
+      const wanted = rule.month_day ?? 1;
+      for (let months = 0; months <= 1; months++) {
+        const year = after.getFullYear();
+        const month = after.getMonth() + months;
+        // Day 0 of the following month is this month's last day
+        const lastDay = new Date(year, month + 1, 0).getDate();
+        const day = localDateString(new Date(year, month, Math.min(wanted, lastDay)));
+        if (day > date) return day;
+      }
+      return null;
+    }
+    case "after_done":
+      return null;
+  }
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+/** "Every Monday and Thursday", "Monthly on the 1st", "3 days after completion"... */
+export function describeRecurrence(rule: RecurrenceRule) {
+  switch (rule.kind) {
+    case "daily":
+      return "Every day";
+    case "weekly": {
+      const names = rule.weekdays.map(d => WEEKDAY_NAMES[d]);
+      if (names.length <= 1) return `Every ${names[0] ?? "week"}`;
+      return `Every ${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+    }
+    case "monthly":
+      return `Monthly on the ${ordinal(rule.month_day ?? 1)}`;
+    case "after_done": {
+      const days = rule.interval_days ?? 1;
+      return `${days} ${days === 1 ? "day" : "days"} after completion`;
+    }
+  }
+}
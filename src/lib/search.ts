@@ -0,0 +1,128 @@
+// Card search. A query is free text plus optional tokens:
+//   col:doing        column key or title contains "doing" (quote titles with spaces: col:"in review")
+//   has:link         also has:description, has:due, has:labels
+//   created:<7d      created less than 7 days ago; created:>30d is more than 30 days ago
+//   updated:>2w      same for the last update; units are h(ours), d(ays) and w(eeks)
+// Every part has to match. Free text matches the title, the description and link URLs.
+
+export type HasFilter = "link" | "description" | "due" | "labels";
+
+export type AgeFilter = { op: "<" | ">"; ms: number };
+
+export type SearchQuery = {
+  terms: string[];
+  columns: string[];
+  has: HasFilter[];
+  created?: AgeFilter;
+  updated?: AgeFilter;
+};
+
+export type SearchableCard = {
+  title: string;
+  description?: string | null;
+  links?: { href: string }[] | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  dueDate?: string | null;
+  labelIds?: string[] | null;
+};
+
+const HAS_FILTERS: HasFilter[] = ["link", "description", "due", "labels"];
+
+const UNIT_MS: Record<string, number> = { h: 3600000, d: 86400000, w: 7 * 86400000 };
+
+// Words and "quoted phrases"; a token keeps its quoted value (col:"in review")
+const PART_PATTERN = /(\w+:)?"([^"]*)"|\S+/g;
+
+function parseAge(value: string): AgeFilter | undefined {
+  const match = /^([<>])(\d+)([hdw])$/.exec(value);
+  if (!match) return undefined;
+  return { op: match[1] as "<" | ">", ms: Number(match[2]) * UNIT_MS[match[3]] };
+}
+
+export function parseQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], columns: [], has: [] };
+  for (const [part, quotedKey, quoted] of input.matchAll(PART_PATTERN)) {
+    let key = "";
+    let value = part;
+    if (quoted !== undefined) {
+      key = quotedKey?.slice(0, -1) ?? "";
+      value = quoted;
+    } else if (part.indexOf(":") > 0) {
+      key = part.slice(0, part.indexOf(":"));
+      value = part.slice(part.indexOf(":") + 1);
+    }
+    key = key.toLowerCase();
+    value = value.toLowerCase();
+
+    if (key === "col" || key === "column") {
+      if (value) query.columns.push(value);
+    } else if (key === "has" && HAS_FILTERS.includes(value as HasFilter)) {
+      query.has.push(value as HasFilter);
+    } else if ((key === "created" || key === "updated") && parseAge(value)) {
+      query[key] = parseAge(value);
+    } else if (key === "") {
+      if (value) query.terms.push(value);
+    } else {
+      // Unknown tokens (or a URL like https://...) are searched as plain text
+      query.terms.push(`${key}:${value}`);
+    }
+  }
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery) {
+  return !query.terms.length && !query.columns.length && !query.has.length && !query.created && !query.updated;
+}
+
+function matchesAge(filter: AgeFilter | undefined, timestamp: string | null | undefined, now: number) {
+  if (!filter) return true;
+  if (!timestamp) return false;
+  const age = now - Date.parse(timestamp);
+  return filter.op === "<" ? age < filter.ms : age > filter.ms;
+}
+
+function hasPart(card: SearchableCard, has: HasFilter) {
+  switch (has) {
+    case "link":
+      return !!card.links?.length;
+    case "description":
+      return !!card.description?.trim();
+    case "due":
+      return !!card.dueDate;
+    case "labels":
+      return !!card.labelIds?.length;
+  }
+}
+
+export function matchesQuery(
+  query: SearchQuery,
+  card: SearchableCard,
+  column: { key: string; title: string },
+  now = Date.now()
+) {
+  if (query.columns.length) {
+    const key = column.key.toLowerCase();
+    const title = column.title.toLowerCase();
+    if (!query.columns.some(c => key.includes(c) || title.includes(c))) return false;
+  }
+  if (!query.has.every(has => hasPart(card, has))) return false;
+  if (!matchesAge(query.created, card.createdAt, now) || !matchesAge(query.updated, card.updatedAt, now)) return false;
+  if (!query.terms.length) return true;
+  const haystack = [card.title, card.description ?? "", ...(card.links ?? []).map(l => l.href)].join("\n").toLowerCase();
+  return query.terms.every(term => haystack.includes(term));
+}
+
+export type TextPart = { text: string; match: boolean };
+
+/** Split text into runs that do and don't match any of the terms (case-insensitive). */
+export function highlightParts(text: string, terms: string[]): TextPart[] {
+  const needles = terms.filter(Boolean);
+  if (!needles.length || !text) return [{ text, match: false }];
+  const escaped = needles.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: needles.some(t => t === part.toLowerCase()) }));
+}
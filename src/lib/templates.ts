@@ -0,0 +1,92 @@
+// Card templates as stored in kanban_card_templates
+
+import { localDateString } from "@/lib/dueDates";
+import { toPriority, type Priority } from "@/lib/priority";
+
+export type CardTemplate = {
+  id: string;
+  board_id: string;
+  name: string;
+  // May hold placeholders, see fillPlaceholders
+  title: string;
+  description: string | null;
+  links: { label: string; href: string }[];
+  column_key: string | null;
+  priority: Priority;
+  label_ids: string[];
+  position: number;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function rowToTemplate(row: any): CardTemplate {
+  return {
+    id: String(row.id),
+    board_id: String(row.board_id),
+    name: row.name ?? "",
+    title: row.title ?? "",
+    description: row.description ?? null,
+    links: Array.isArray(row.links)
+      ? (row.links as { label?: string; href: string }[]).map((l, i) => ({ label: l.label ?? `Link ${i + 1}`, href: l.href }))
+      : [],
+    column_key: row.column_key ?? null,
+    priority: toPriority(row.priority),
+    label_ids: Array.isArray(row.label_ids) ? row.label_ids.map(String) : [],
+    position: Number(row.position ?? 0),
+  };
+}
+
+export const PLACEHOLDER_HELP =
+  "Placeholders: {date} (today), {date+7} / {date-1} (days from today), {weekday}, {week} (ISO week number), {month}, {year}";
+
+// ISO 8601 week number: weeks start on Monday and week 1 holds the year's first Thursday
+function isoWeek(date: Date) {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  day.setDate(day.getDate() + 3 - ((day.getDay() + 6) % 7));
+  const firstThursday = new Date(day.getFullYear(), 0, 4);
+  return 1 + Math.round(((day.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+}
+
+/** Replace the date placeholders in a template field; unknown {words} are left as they are. */
+export function fillPlaceholders(text: string, now = new Date()) {
+  return text.replace(/\{(date)([+-]\d+)?\}|\{(weekday|week|month|year)\}/g, (match, date, offset, word) => {
+    if (date) {
+      const day = new Date(now);
+      day.setDate(day.getDate() + Number(offset ?? 0));
+      return localDateString(day);
+    }
+    switch (word) {
+      case "weekday":
+        return now.toLocaleDateString(undefined, { weekday: "long" });
+      case "week":
+        return String(isoWeek(now));
+      case "month":
+        return now.toLocaleDateString(undefined, { month: "long" });
+      case "year":
+        return String(now.getFullYear());
+      default:
+        return match;
+    }
+  });
+}
+
+// What the Add Task forms take from a template, placeholders filled in
+export type TemplateFields = {
+  title: string;
+  description: string;
+  // Comma separated, like the form's links field
+  links: string;
+  columnKey: string | null;
+  priority: Priority;
+  labelIds: string[];
+};
+
+export function applyTemplate(template: CardTemplate, now = new Date()): TemplateFields {
+  return {
+    title: fillPlaceholders(template.title, now),
+    description: fillPlaceholders(template.description ?? "", now),
+    links: template.links.map(l => fillPlaceholders(l.href, now)).join(", "),
+    columnKey: template.column_key,
+    priority: template.priority,
+    labelIds: template.label_ids,
+  };
+}
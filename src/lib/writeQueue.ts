@@ -0,0 +1,296 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Durable, ordered queue of Supabase writes.
+//
+// Every mutation is recorded in IndexedDB before it is sent, so edits made while offline
+// (or lost to a reload mid-request) are replayed in order once the connection returns.
+// New rows get their id on the client, which lets later queued writes refer to them
+// before the insert has reached the server.
+//
+// The queue lives in the browser, not the account: each write remembers who queued it and
+// only replays under that account's session, and signing out drops what is left.
+
+export type WriteAction = "insert" | "update" | "delete";
+export type WriteStatus = "pending" | "syncing" | "failed";
+
+export type QueuedWrite = {
+  id: string;
+  table: string;
+  action: WriteAction;
+  // Row the write creates (insert) or targets (update/delete)
+  rowId: string;
+  // Primary key column rowId refers to (defaults to "id")
+  idColumn?: string;
+  values?: Record<string, unknown>;
+  // Account that queued the write
+  userId?: string | null;
+  status: WriteStatus;
+  error?: string;
+  createdAt: number;
+};
+
+export type NewWrite = Pick<QueuedWrite, "table" | "action" | "rowId" | "idColumn" | "values">;
+
+// queued: the server could not be reached; the write stays in the queue for replay
+export type WriteResult = { error: { message: string } | null; queued: boolean };
+
+const DB_NAME = "kanban-offline";
+const STORE = "writes";
+
+let writes: QueuedWrite[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<(writes: QueuedWrite[]) => void>();
+const settlers = new Map<string, (result: WriteResult) => void>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing and the like - fall back to an in-memory queue
+        console.error("Error opening offline queue:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function persist(write: QueuedWrite) {
+  return withStore("readwrite", (store) => store.put(write)).catch((error) => {
+    console.error("Error saving queued write:", error);
+  });
+}
+
+function forget(id: string) {
+  return withStore("readwrite", (store) => store.delete(id)).catch((error) => {
+    console.error("Error removing queued write:", error);
+  });
+}
+
+function ensureLoaded() {
+  if (!loaded) {
+    loaded = withStore<QueuedWrite[]>("readonly", (store) => store.getAll())
+      .then((stored) => {
+        // A write that was mid-flight when the page closed is simply retried
+        const restored = (stored ?? []).map((w) => (w.status === "syncing" ? { ...w, status: "pending" as const } : w));
+        writes = [...restored, ...writes].sort((a, b) => a.createdAt - b.createdAt);
+        notify();
+      })
+      .catch((error) => {
+        console.error("Error loading offline queue:", error);
+      });
+  }
+  return loaded;
+}
+
+function notify() {
+  const snapshot = writes;
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+function setWrite(id: string, patch: Partial<QueuedWrite>) {
+  writes = writes.map((w) => (w.id === id ? { ...w, ...patch } : w));
+  notify();
+  const updated = writes.find((w) => w.id === id);
+  if (updated) void persist(updated);
+}
+
+function removeWrite(id: string) {
+  writes = writes.filter((w) => w.id !== id);
+  notify();
+  void forget(id);
+}
+
+function settle(id: string, result: WriteResult) {
+  settlers.get(id)?.(result);
+  settlers.delete(id);
+}
+
+// Callers waiting on writes that can't go out right now get told they are queued
+function releaseWaiting() {
+  for (const w of writes) {
+    if (w.status === "pending") settle(w.id, { error: null, queued: true });
+  }
+}
+
+async function currentUserId() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+// Writes another account queued on this browser stay put until that account is back
+const ownedBy = (userId: string | null) => (w: QueuedWrite) => !!userId && w.userId === userId;
+
+async function execute(write: QueuedWrite) {
+  const table = supabase.from(write.table);
+  const idColumn = write.idColumn ?? "id";
+  switch (write.action) {
+    case "insert":
+      // upsert keeps a replayed insert idempotent if the first attempt did reach the server
+      return table.upsert(write.values ?? {}, { onConflict: idColumn });
+    case "update":
+      return table.update(write.values ?? {}).eq(idColumn, write.rowId);
+    case "delete":
+      return table.delete().eq(idColumn, write.rowId);
+  }
+}
+
+async function runQueue() {
+  await ensureLoaded();
+  const owned = ownedBy(await currentUserId());
+  for (;;) {
+    const next = writes.find((w) => w.status === "pending" && owned(w));
+    if (!next) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      releaseWaiting();
+      return;
+    }
+
+    setWrite(next.id, { status: "syncing", error: undefined });
+    let result: { error: { message: string } | null; status: number };
+    try {
+      result = await execute(next);
+    } catch (error) {
+      result = { error: { message: String(error) }, status: 0 };
+    }
+
+    if (result.error && result.status === 0) {
+      // Network failure - keep this and everything after it for the next flush
+      setWrite(next.id, { status: "pending" });
+      releaseWaiting();
+      return;
+    }
+    if (result.error) {
+      console.error(`Queued ${next.action} on ${next.table} failed:`, result.error);
+      setWrite(next.id, { status: "failed", error: result.error.message });
+      settle(next.id, { error: result.error, queued: false });
+      continue;
+    }
+    removeWrite(next.id);
+    settle(next.id, { error: null, queued: false });
+  }
+}
+
+/** Send queued writes in order; safe to call repeatedly. */
+export function flushWriteQueue() {
+  if (!flushing) {
+    flushing = runQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Record a write and try to send it. Resolves once the server accepted or rejected it,
+ * or with queued: true when it has to wait for the connection to come back.
+ */
+export async function enqueueWrite(write: NewWrite): Promise<WriteResult> {
+  await ensureLoaded();
+  const entry: QueuedWrite = {
+    ...write,
+    id: crypto.randomUUID(),
+    userId: await currentUserId(),
+    status: "pending",
+    createdAt: Date.now(),
+  };
+  writes = [...writes, entry];
+  notify();
+  await persist(entry);
+  const result = new Promise<WriteResult>((resolve) => settlers.set(entry.id, resolve));
+  void flushWriteQueue();
+  return result;
+}
+
+export function retryFailedWrites() {
+  for (const w of writes) {
+    if (w.status === "failed") setWrite(w.id, { status: "pending", error: undefined });
+  }
+  return flushWriteQueue();
+}
+
+export function discardFailedWrites() {
+  for (const w of writes) {
+    if (w.status === "failed") removeWrite(w.id);
+  }
+}
+
+// Writes the signed-in account still has in the queue, failed ones included
+export async function countOwnWrites() {
+  await ensureLoaded();
+  return writes.filter(ownedBy(await currentUserId())).length;
+}
+
+/**
+ * Drop every queued write, e.g. on sign-out so the next account never replays them.
+ * Callers still waiting on one are told it failed.
+ */
+export async function clearWriteQueue() {
+  await ensureLoaded();
+  for (const w of writes) {
+    removeWrite(w.id);
+    settle(w.id, { error: { message: "Discarded on sign-out" }, queued: false });
+  }
+}
+
+export function subscribeToWriteQueue(listener: (writes: QueuedWrite[]) => void) {
+  listeners.add(listener);
+  listener(writes);
+  void ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Overlay writes that haven't reached the server yet onto freshly fetched rows, so a
+ * reload doesn't hide local changes that are still waiting in the queue. Queued inserts
+ * are only added when their values match `scope` (e.g. the board being shown).
+ */
+export async function applyQueuedWrites<T extends object>(
+  table: string,
+  rows: T[],
+  scope: Record<string, unknown> = {}
+): Promise<T[]> {
+  await ensureLoaded();
+  const owned = ownedBy(await currentUserId());
+  let result = rows;
+  for (const w of writes) {
+    if (w.table !== table || w.status === "failed" || !owned(w)) continue;
+    if (w.action === "insert" && !Object.entries(scope).every(([k, v]) => w.values?.[k] === v)) continue;
+    const idColumn = w.idColumn ?? "id";
+    const matches = (row: T) => String((row as Record<string, unknown>)[idColumn]) === w.rowId;
+    if (w.action === "insert") {
+      if (!result.some(matches)) {
+        result = [{ ...(w.values as T), [idColumn]: w.rowId }, ...result];
+      }
+    } else if (w.action === "update") {
+      result = result.map((row) => (matches(row) ? { ...row, ...w.values } : row));
+    } else {
+      result = result.filter((row) => !matches(row));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,23 @@
+-- The tables the app started with. Later migrations add ranks, boards, ownership and the rest.
+create table if not exists public.kanban_columns (
+  -- Globally unique; later column seeds upsert on it
+  key text primary key,
+  title text not null,
+  position integer not null default 0
+);
+
+create table if not exists public.kanban_cards (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  links jsonb,
+  column_key text not null,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists kanban_cards_column_idx on public.kanban_cards (column_key, position);
+
+-- The board and the mobile list follow card changes live
+alter publication supabase_realtime add table public.kanban_cards;
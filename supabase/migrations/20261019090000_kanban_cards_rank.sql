@@ -0,0 +1,9 @@
+-- Fractional rank keys for card order (see src/lib/rank.ts).
+-- "C" collation keeps ordering byte-wise so it matches the client's string comparison.
+alter table public.kanban_cards
+  add column if not exists rank text collate "C";
+
+create index if not exists kanban_cards_column_rank_idx
+  on public.kanban_cards (column_key, rank);
+
+-- Existing rows keep rank = null; the board respreads those columns on first load.
@@ -0,0 +1,11 @@
+-- Columns are managed from the board UI; color is one of the palette names in src/lib/columns.ts
+alter table public.kanban_columns
+  add column if not exists color text not null default 'gray';
+
+insert into public.kanban_columns (key, title, position, color) values
+  ('todo', 'To-do', 0, 'blue'),
+  ('doing', 'In-progress', 1, 'green'),
+  ('done', 'Done', 2, 'purple'),
+  ('temp', 'Temp', 3, 'orange')
+on conflict (key) do update set color = excluded.color
+  where public.kanban_columns.color = 'gray';
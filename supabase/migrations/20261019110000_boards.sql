@@ -0,0 +1,27 @@
+-- Several boards, each with its own columns and cards
+create table if not exists public.boards (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Everything that existed before boards lands on the first one
+insert into public.boards (id, title, position)
+values ('00000000-0000-0000-0000-000000000001', 'Personal', 0)
+on conflict (id) do nothing;
+
+alter table public.kanban_columns
+  add column if not exists board_id uuid references public.boards (id) on delete cascade;
+update public.kanban_columns set board_id = '00000000-0000-0000-0000-000000000001' where board_id is null;
+alter table public.kanban_columns alter column board_id set not null;
+
+alter table public.kanban_cards
+  add column if not exists board_id uuid references public.boards (id) on delete cascade;
+update public.kanban_cards set board_id = '00000000-0000-0000-0000-000000000001' where board_id is null;
+alter table public.kanban_cards alter column board_id set not null;
+
+create index if not exists kanban_columns_board_idx on public.kanban_columns (board_id, position);
+create index if not exists kanban_cards_board_idx on public.kanban_cards (board_id, column_key, rank);
+
+-- Column keys stay globally unique (they are the table's key); the app suffixes new ones
@@ -0,0 +1,54 @@
+-- Boards and cards belong to a signed-in user; row-level security keeps everyone else out
+alter table public.boards
+  add column if not exists owner_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.kanban_cards
+  add column if not exists owner_id uuid references auth.users (id) on delete set null default auth.uid();
+
+create index if not exists boards_owner_idx on public.boards (owner_id);
+
+-- Boards from before sign-in existed have no owner, and nobody can see them until an admin
+-- hands them to an account, once, from the SQL editor or psql:
+--   select public.assign_unowned_boards('you@example.com');
+create or replace function public.assign_unowned_boards(p_email text)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+  v_count integer;
+begin
+  select u.id into v_owner from auth.users u where lower(u.email) = lower(p_email);
+  if v_owner is null then
+    raise exception 'No account with the email %', p_email;
+  end if;
+  update public.boards set owner_id = v_owner where owner_id is null;
+  get diagnostics v_count = row_count;
+  update public.kanban_cards c set owner_id = v_owner
+    from public.boards b
+    where c.board_id = b.id and c.owner_id is null and b.owner_id = v_owner;
+  return v_count;
+end;
+$$;
+
+-- Admin only: signed-in users must not be able to take boards over
+revoke execute on function public.assign_unowned_boards(text) from public, anon, authenticated;
+
+alter table public.boards enable row level security;
+alter table public.kanban_columns enable row level security;
+alter table public.kanban_cards enable row level security;
+
+create policy "Owners manage their boards" on public.boards
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Board owners manage columns" on public.kanban_columns
+  for all to authenticated
+  using (exists (select 1 from public.boards b where b.id = board_id and b.owner_id = auth.uid()))
+  with check (exists (select 1 from public.boards b where b.id = board_id and b.owner_id = auth.uid()));
+
+create policy "Board owners manage cards" on public.kanban_cards
+  for all to authenticated
+  using (exists (select 1 from public.boards b where b.id = board_id and b.owner_id = auth.uid()))
+  with check (exists (select 1 from public.boards b where b.id = board_id and b.owner_id = auth.uid()));
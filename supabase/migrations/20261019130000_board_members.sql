@@ -0,0 +1,155 @@
+-- Sharing: people invited to a board by email, with a role
+--   owner  - everything, including columns and membership
+--   editor - card create/edit/move/delete
+--   viewer - read-only
+create table if not exists public.board_members (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  email text not null,
+  -- Filled in once someone with this email has an account
+  user_id uuid references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  unique (board_id, email)
+);
+
+create index if not exists board_members_user_idx on public.board_members (user_id);
+
+-- Caller's role on a board, or null without access
+create or replace function public.board_role(p_board_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from boards b where b.id = p_board_id and b.owner_id = auth.uid()) then 'owner'
+    else (select m.role from board_members m where m.board_id = p_board_id and m.user_id = auth.uid())
+  end;
+$$;
+
+grant execute on function public.board_role(uuid) to authenticated;
+
+-- Link invites to existing accounts as they are created. Only a confirmed address counts:
+-- anyone can sign up with an unconfirmed one, including an invitee's.
+create or replace function public.link_board_member()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.email := lower(new.email);
+  if new.user_id is null then
+    select u.id into new.user_id from auth.users u
+      where lower(u.email) = new.email and u.email_confirmed_at is not null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger board_members_link_user
+  before insert or update of email on public.board_members
+  for each row execute function public.link_board_member();
+
+-- Invites sent before the invitee signed up, once they have confirmed their address
+create or replace function public.claim_board_invites()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.board_members m
+    set user_id = u.id
+    from auth.users u
+    where u.id = auth.uid() and u.email_confirmed_at is not null
+      and m.user_id is null and m.email = lower(u.email);
+$$;
+
+grant execute on function public.claim_board_invites() to authenticated;
+
+-- Board creators show up in the member list as owners
+create or replace function public.add_board_owner_member()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.owner_id is not null then
+    insert into board_members (board_id, user_id, email, role)
+    select new.id, u.id, u.email, 'owner' from auth.users u where u.id = new.owner_id
+    on conflict (board_id, email) do update set role = 'owner', user_id = excluded.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger boards_add_owner_member
+  after insert or update of owner_id on public.boards
+  for each row execute function public.add_board_owner_member();
+
+insert into public.board_members (board_id, user_id, email, role)
+select b.id, u.id, lower(u.email), 'owner'
+from public.boards b join auth.users u on u.id = b.owner_id
+on conflict (board_id, email) do nothing;
+
+-- A board can't be handed to someone else from the app; the policy check above still sees
+-- the old row, so owner_id is fixed here. Admin sessions (no auth.uid()) may still set it.
+create or replace function public.keep_board_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id and auth.uid() is not null then
+    raise exception 'owner_id cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger boards_keep_owner
+  before update of owner_id on public.boards
+  for each row execute function public.keep_board_owner();
+
+-- Role-aware policies replace the owner-only ones
+drop policy if exists "Owners manage their boards" on public.boards;
+drop policy if exists "Board owners manage columns" on public.kanban_columns;
+drop policy if exists "Board owners manage cards" on public.kanban_cards;
+
+-- owner_id is checked directly so insert ... returning sees the new row
+create policy "Members read boards" on public.boards
+  for select to authenticated using (owner_id = auth.uid() or public.board_role(id) is not null);
+create policy "Users create their own boards" on public.boards
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "Owners update boards" on public.boards
+  for update to authenticated
+  using (public.board_role(id) = 'owner')
+  with check (public.board_role(id) = 'owner');
+create policy "Owners delete boards" on public.boards
+  for delete to authenticated using (public.board_role(id) = 'owner');
+
+create policy "Members read columns" on public.kanban_columns
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Owners manage columns" on public.kanban_columns
+  for all to authenticated
+  using (public.board_role(board_id) = 'owner')
+  with check (public.board_role(board_id) = 'owner');
+
+create policy "Members read cards" on public.kanban_cards
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage cards" on public.kanban_cards
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter table public.board_members enable row level security;
+
+create policy "Members see each other" on public.board_members
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Owners manage members" on public.board_members
+  for all to authenticated
+  using (public.board_role(board_id) = 'owner')
+  with check (public.board_role(board_id) = 'owner');
@@ -0,0 +1,38 @@
+-- Ordered checklist (subtask) items per card.
+-- Tables that copy a card's board_id point at (id, board_id), so a row can't sit on one
+-- board (passing its RLS) while belonging to another board's card.
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'kanban_cards_id_board_key') then
+    alter table public.kanban_cards
+      add constraint kanban_cards_id_board_key unique (id, board_id);
+  end if;
+end
+$$;
+
+create table if not exists public.kanban_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  card_id uuid not null,
+  -- Copied from the card so realtime can filter by board and RLS can check roles
+  board_id uuid not null references public.boards (id) on delete cascade,
+  text text not null,
+  done boolean not null default false,
+  rank text collate "C" not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  foreign key (card_id, board_id) references public.kanban_cards (id, board_id) on delete cascade
+);
+
+create index if not exists kanban_checklist_items_card_idx on public.kanban_checklist_items (card_id, rank);
+create index if not exists kanban_checklist_items_board_idx on public.kanban_checklist_items (board_id);
+
+alter table public.kanban_checklist_items enable row level security;
+
+create policy "Members read checklist items" on public.kanban_checklist_items
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage checklist items" on public.kanban_checklist_items
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter publication supabase_realtime add table public.kanban_checklist_items;
@@ -0,0 +1,6 @@
+-- Optional due date (and time of day) per card, read in the viewer's time zone
+alter table public.kanban_cards
+  add column if not exists due_date date,
+  add column if not exists due_time time;
+
+create index if not exists kanban_cards_due_idx on public.kanban_cards (board_id, due_date) where due_date is not null;
@@ -0,0 +1,45 @@
+-- Board-defined labels; cards list the ones applied to them
+create table if not exists public.kanban_labels (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  name text not null,
+  color text not null default 'gray',
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists kanban_labels_board_idx on public.kanban_labels (board_id, position);
+
+-- An array on the card keeps label changes on the card's own write/realtime/undo path
+alter table public.kanban_cards
+  add column if not exists label_ids uuid[] not null default '{}';
+
+create index if not exists kanban_cards_label_ids_idx on public.kanban_cards using gin (label_ids);
+
+-- Deleting a label takes it off every card
+create or replace function public.remove_deleted_label()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.kanban_cards
+    set label_ids = array_remove(label_ids, old.id), updated_at = now()
+    where board_id = old.board_id and old.id = any (label_ids);
+  return old;
+end;
+$$;
+
+create trigger kanban_labels_remove_from_cards
+  after delete on public.kanban_labels
+  for each row execute function public.remove_deleted_label();
+
+alter table public.kanban_labels enable row level security;
+
+create policy "Members read labels" on public.kanban_labels
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage labels" on public.kanban_labels
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter publication supabase_realtime add table public.kanban_labels;
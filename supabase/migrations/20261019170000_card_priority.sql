@@ -0,0 +1,11 @@
+-- Card priority. The enum's declaration order is its sort order (none < ... < urgent).
+do $$
+begin
+  create type public.card_priority as enum ('none', 'low', 'medium', 'high', 'urgent');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+alter table public.kanban_cards
+  add column if not exists priority public.card_priority not null default 'none';
@@ -0,0 +1,40 @@
+-- Card assignees. board_members is the board's list of people (including invitees who
+-- have not signed up yet); this join table records who is on which card.
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'board_members_id_board_key') then
+    alter table public.board_members
+      add constraint board_members_id_board_key unique (id, board_id);
+  end if;
+end
+$$;
+
+create table if not exists public.kanban_card_assignees (
+  id uuid primary key default gen_random_uuid(),
+  card_id uuid not null,
+  -- Copied from the card so realtime can filter by board and RLS can check roles
+  board_id uuid not null references public.boards (id) on delete cascade,
+  member_id uuid not null,
+  created_at timestamptz not null default now(),
+  unique (card_id, member_id),
+  -- Only people on the card's board can be assigned; removing someone unassigns them
+  foreign key (member_id, board_id) references public.board_members (id, board_id) on delete cascade,
+  -- And only to cards on that board (see kanban_cards_id_board_key)
+  foreign key (card_id, board_id) references public.kanban_cards (id, board_id) on delete cascade
+);
+
+create index if not exists kanban_card_assignees_board_idx on public.kanban_card_assignees (board_id);
+create index if not exists kanban_card_assignees_member_idx on public.kanban_card_assignees (member_id);
+
+alter table public.kanban_card_assignees enable row level security;
+
+create policy "Members read assignees" on public.kanban_card_assignees
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage assignees" on public.kanban_card_assignees
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter publication supabase_realtime add table public.kanban_card_assignees;
+-- Newly invited people show up in assignee pickers without a reload
+alter publication supabase_realtime add table public.board_members;
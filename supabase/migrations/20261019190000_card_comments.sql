@@ -0,0 +1,35 @@
+-- Discussion threads on cards
+create table if not exists public.kanban_card_comments (
+  id uuid primary key default gen_random_uuid(),
+  card_id uuid not null,
+  -- Copied from the card so realtime can filter by board and RLS can check roles
+  board_id uuid not null references public.boards (id) on delete cascade,
+  author_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- Kept with the comment so threads render without reading auth.users
+  author_email text not null default (auth.jwt() ->> 'email'),
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- The card must be on the comment's board (see kanban_cards_id_board_key)
+  foreign key (card_id, board_id) references public.kanban_cards (id, board_id) on delete cascade
+);
+
+create index if not exists kanban_card_comments_card_idx on public.kanban_card_comments (card_id, created_at);
+create index if not exists kanban_card_comments_board_idx on public.kanban_card_comments (board_id);
+
+alter table public.kanban_card_comments enable row level security;
+
+-- Everyone on the board reads the thread; editors post; authors edit and delete their own
+create policy "Members read comments" on public.kanban_card_comments
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors add comments" on public.kanban_card_comments
+  for insert to authenticated
+  with check (author_id = auth.uid() and public.board_role(board_id) in ('owner', 'editor'));
+create policy "Authors edit own comments" on public.kanban_card_comments
+  for update to authenticated
+  using (author_id = auth.uid())
+  with check (author_id = auth.uid() and public.board_role(board_id) is not null);
+create policy "Authors delete own comments" on public.kanban_card_comments
+  for delete to authenticated using (author_id = auth.uid());
+
+alter publication supabase_realtime add table public.kanban_card_comments;
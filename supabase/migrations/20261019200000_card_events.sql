@@ -0,0 +1,39 @@
+-- Append-only history of everything that happens to a card. There is no foreign key to
+-- kanban_cards on purpose: a deleted card keeps its history (and gets it back if restored).
+create table if not exists public.kanban_card_events (
+  id uuid primary key default gen_random_uuid(),
+  card_id uuid not null,
+  board_id uuid not null references public.boards (id) on delete cascade,
+  kind text not null check (kind in ('created', 'edited', 'moved', 'reordered', 'deleted', 'restored')),
+  -- [{ field, before, after }] for edits; moves record the column titles as field "column"
+  changes jsonb,
+  from_column text,
+  to_column text,
+  actor_id uuid default auth.uid() references auth.users (id) on delete set null,
+  actor_email text default (auth.jwt() ->> 'email'),
+  -- Set by the client, so writes replayed from the offline queue keep when they happened
+  created_at timestamptz not null default now()
+);
+
+create index if not exists kanban_card_events_card_idx on public.kanban_card_events (card_id, created_at);
+create index if not exists kanban_card_events_board_idx on public.kanban_card_events (board_id);
+
+alter table public.kanban_card_events enable row level security;
+
+-- No update or delete policies: events can only be added
+create policy "Members read card events" on public.kanban_card_events
+  for select to authenticated using (public.board_role(board_id) is not null);
+-- Without a foreign key the card may be gone (its "deleted" event comes after it), but it
+-- can never be another board's
+create policy "Editors record card events" on public.kanban_card_events
+  for insert to authenticated
+  with check (
+    actor_id = auth.uid()
+    and public.board_role(board_id) in ('owner', 'editor')
+    and not exists (
+      select 1 from public.kanban_cards c
+      where c.id = kanban_card_events.card_id and c.board_id <> kanban_card_events.board_id
+    )
+  );
+
+alter publication supabase_realtime add table public.kanban_card_events;
@@ -0,0 +1,5 @@
+-- Work-in-progress limits. wip_limit is the most cards a column should hold (null: no limit);
+-- wip_mode says whether moving a card in past it is refused ('block') or allowed and flagged ('warn').
+alter table public.kanban_columns
+  add column if not exists wip_limit integer check (wip_limit is null or wip_limit > 0),
+  add column if not exists wip_mode text not null default 'warn' check (wip_mode in ('warn', 'block'));
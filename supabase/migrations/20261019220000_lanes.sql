@@ -0,0 +1,45 @@
+-- Board-defined swimlanes (a project, an area...); each card sits in at most one
+create table if not exists public.kanban_lanes (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  name text not null,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists kanban_lanes_board_idx on public.kanban_lanes (board_id, position);
+
+-- No foreign key, like label_ids: a card queued offline may name a lane deleted meanwhile,
+-- and the board shows such cards under "No lane"
+alter table public.kanban_cards
+  add column if not exists lane_id uuid;
+
+create index if not exists kanban_cards_lane_idx on public.kanban_cards (lane_id);
+
+-- Deleting a lane moves its cards to "No lane"
+create or replace function public.clear_deleted_lane()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.kanban_cards
+    set lane_id = null, updated_at = now()
+    where board_id = old.board_id and lane_id = old.id;
+  return old;
+end;
+$$;
+
+create trigger kanban_lanes_clear_from_cards
+  after delete on public.kanban_lanes
+  for each row execute function public.clear_deleted_lane();
+
+alter table public.kanban_lanes enable row level security;
+
+create policy "Members read lanes" on public.kanban_lanes
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage lanes" on public.kanban_lanes
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter publication supabase_realtime add table public.kanban_lanes;
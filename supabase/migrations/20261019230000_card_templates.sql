@@ -0,0 +1,29 @@
+-- Saved card shapes per board. title, description and link URLs may hold date placeholders
+-- ({date}, {date+7}, {weekday}, {week}, {month}, {year}) filled in when a card is made from one.
+create table if not exists public.kanban_card_templates (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  name text not null,
+  title text not null default '',
+  description text,
+  links jsonb not null default '[]',
+  -- Column new cards go to; null (or a deleted column) means the board's first column
+  column_key text,
+  priority public.card_priority not null default 'none',
+  label_ids uuid[] not null default '{}',
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists kanban_card_templates_board_idx on public.kanban_card_templates (board_id, position);
+
+alter table public.kanban_card_templates enable row level security;
+
+create policy "Members read templates" on public.kanban_card_templates
+  for select to authenticated using (public.board_role(board_id) is not null);
+create policy "Editors manage templates" on public.kanban_card_templates
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (public.board_role(board_id) in ('owner', 'editor'));
+
+alter publication supabase_realtime add table public.kanban_card_templates;
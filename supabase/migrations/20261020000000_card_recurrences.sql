@@ -0,0 +1,48 @@
+-- Recurring cards. A rule belongs to the latest card of its series; generating the next
+-- occurrence copies that card and moves the rule onto the copy. Generation runs server-side
+-- (POST /api/recurrences, called by a cron job and after a card is moved to Done).
+create table if not exists public.kanban_recurrences (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  -- No foreign key, like card events: a deleted card can come back through undo, and the
+  -- generator skips a rule whose card is gone
+  card_id uuid not null unique,
+  kind text not null check (kind in ('daily', 'weekly', 'monthly', 'after_done')),
+  -- weekly: 0 = Sunday ... 6 = Saturday
+  weekdays smallint[] not null default '{}' check (weekdays <@ '{0,1,2,3,4,5,6}'),
+  -- monthly: months shorter than this use their last day
+  month_day smallint check (month_day between 1 and 31),
+  -- after_done: days from completion to the next card's due date
+  interval_days smallint check (interval_days > 0),
+  -- Column new occurrences go to; null (or a deleted column) means the board's first column
+  column_key text,
+  -- Due date of the next scheduled occurrence; the cron creates it once this day comes.
+  -- Always null for after_done, which only follows completion.
+  next_on date,
+  created_at timestamptz not null default now(),
+  check (kind <> 'weekly' or cardinality(weekdays) > 0),
+  check (kind <> 'monthly' or month_day is not null),
+  check (kind <> 'after_done' or interval_days is not null)
+);
+
+create index if not exists kanban_recurrences_board_idx on public.kanban_recurrences (board_id);
+create index if not exists kanban_recurrences_next_on_idx on public.kanban_recurrences (next_on);
+
+alter table public.kanban_recurrences enable row level security;
+
+create policy "Members read recurrences" on public.kanban_recurrences
+  for select to authenticated using (public.board_role(board_id) is not null);
+-- The card may be gone (undo can bring it back) or not made yet (the generator claims the
+-- rule before inserting it), but it can never be another board's
+create policy "Editors manage recurrences" on public.kanban_recurrences
+  for all to authenticated
+  using (public.board_role(board_id) in ('owner', 'editor'))
+  with check (
+    public.board_role(board_id) in ('owner', 'editor')
+    and not exists (
+      select 1 from public.kanban_cards c
+      where c.id = kanban_recurrences.card_id and c.board_id <> kanban_recurrences.board_id
+    )
+  );
+
+alter publication supabase_realtime add table public.kanban_recurrences;